@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { type AgentSpec, agentCommandLine, DEFAULT_AGENT_SPEC, parseAgentEnv, shellQuote } from "./agent-launch.ts";
+
+describe("shellQuote", () => {
+  test("leaves simple arguments alone and single-quotes the rest", () => {
+    expect(shellQuote("--model")).toBe("--model");
+    expect(shellQuote("two words")).toBe("'two words'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+});
+
+describe("agentCommandLine", () => {
+  const spec: AgentSpec = { ...DEFAULT_AGENT_SPEC, args: ["--model", "opus 4"], resume: true };
+
+  test("appends quoted arguments", () => {
+    expect(agentCommandLine(spec, { yolo: false, restart: false })).toBe("claude --model 'opus 4'");
+  });
+
+  test("adds Claude's YOLO and resume flags", () => {
+    expect(agentCommandLine(spec, { yolo: true, restart: true })).toBe(
+      "claude --model 'opus 4' --dangerously-skip-permissions --continue",
+    );
+    expect(agentCommandLine({ ...spec, resume: false }, { yolo: false, restart: true })).toBe(
+      "claude --model 'opus 4'",
+    );
+  });
+
+  test("does not pass Claude's flags to other agents", () => {
+    const other = { ...spec, command: "codex", args: [] };
+    expect(agentCommandLine(other, { yolo: true, restart: true })).toBe("codex");
+    expect(agentCommandLine({ ...spec, command: "/opt/bin/claude", args: [] }, { yolo: true, restart: false })).toBe(
+      "/opt/bin/claude --dangerously-skip-permissions",
+    );
+  });
+
+  test("returns null for a plain shell", () => {
+    expect(agentCommandLine({ ...spec, command: null }, { yolo: true, restart: true })).toBeNull();
+  });
+});
+
+describe("parseAgentEnv", () => {
+  test("accepts KEY=VALUE and rejects anything else", () => {
+    expect(parseAgentEnv("FOO_1=a=b")).toBe("FOO_1=a=b");
+    expect(() => parseAgentEnv("1FOO=x")).toThrow("expected KEY=VALUE");
+    expect(() => parseAgentEnv("FOO")).toThrow("expected KEY=VALUE");
+  });
+});
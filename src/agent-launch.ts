@@ -0,0 +1,46 @@
+import { basename } from "node:path";
+
+export interface AgentSpec {
+  command: string | null; // null = plain shell, nothing is launched
+  args: string[];
+  env: string[]; // KEY=VALUE, set on the tmux session
+  resume: boolean; // relaunch with --continue after a watchdog restart
+}
+
+export const DEFAULT_AGENT = "claude";
+
+// `--agent shell` leaves the pane at the shell prompt
+export const SHELL_AGENT = "shell";
+
+export const DEFAULT_AGENT_SPEC: AgentSpec = { command: DEFAULT_AGENT, args: [], env: [], resume: false };
+
+const SAFE_ARG = /^[\w@%+=:,./-]+$/;
+
+/** Quotes an argument for POSIX shells (bash, zsh, fish all accept single quotes). */
+export function shellQuote(arg: string): string {
+  if (SAFE_ARG.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Validates a KEY=VALUE environment entry. */
+export function parseAgentEnv(entry: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*=/.test(entry)) {
+    throw new Error(`Invalid environment entry: ${entry} (expected KEY=VALUE)`);
+  }
+  return entry;
+}
+
+/**
+ * The line typed at the shell prompt, or null for a plain shell. YOLO mode and resuming
+ * use Claude's own flags, so they only apply when the agent is Claude.
+ */
+export function agentCommandLine(spec: AgentSpec, opts: { yolo: boolean; restart: boolean }): string | null {
+  if (spec.command === null) return null;
+  const args = [...spec.args];
+  if (basename(spec.command) === DEFAULT_AGENT) {
+    if (opts.yolo) args.push("--dangerously-skip-permissions");
+    if (opts.restart && spec.resume) args.push("--continue");
+  }
+  // The command itself may be a short pipeline or contain variables, so it is typed as-is
+  return [spec.command, ...args.map(shellQuote)].join(" ");
+}
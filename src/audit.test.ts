@@ -0,0 +1,81 @@
+import { afterAll, afterEach, describe, expect, spyOn, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { audit, formatEvent, rotatedPath, startAudit, stopAudit } from "./audit.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "superintent-remote-audit-"));
+
+afterEach(() => stopAudit());
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("formatEvent", () => {
+  test("keeps console lines readable", () => {
+    expect(
+      formatEvent({
+        type: "auth.fail",
+        conn: "a1b2c3d4",
+        transport: "ssh",
+        ip: "100.64.0.2",
+        method: "publickey",
+        user: "app",
+        lockoutMs: 60000,
+        global: false,
+      }),
+    ).toBe("Auth failed (publickey): 100.64.0.2 (locked out for 60s)");
+    expect(
+      formatEvent({
+        type: "auth.accept",
+        conn: "a1",
+        transport: "ssh",
+        ip: "100.64.0.2",
+        method: "publickey+totp",
+        user: "app",
+        readOnly: false,
+        key: "laptop",
+      }),
+    ).toBe("Auth accepted (publickey laptop, totp): 100.64.0.2");
+    expect(
+      formatEvent({
+        type: "session.attach",
+        conn: "a1",
+        transport: "web",
+        ip: "100.64.0.2",
+        session: "app",
+        readOnly: true,
+      }),
+    ).toBe("Session attached (web, read-only): 100.64.0.2 -> app");
+  });
+});
+
+describe("rotatedPath", () => {
+  test("inserts the index before the extension", () => {
+    expect(rotatedPath("/logs/audit.jsonl", 2)).toBe("/logs/audit.2.jsonl");
+  });
+});
+
+describe("audit", () => {
+  test("writes one JSON object per line and rotates by size", () => {
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    const path = join(dir, "audit.jsonl");
+    startAudit({ path, maxBytes: 300, retain: 2 });
+
+    for (let i = 0; i < 10; i++) {
+      audit({ type: "terminal.resize", session: `s${i}`, cols: 80, rows: 24 });
+    }
+    log.mockRestore();
+
+    const current = readFileSync(path, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(current.at(-1)).toMatchObject({ type: "terminal.resize", session: "s9", cols: 80, rows: 24 });
+    expect(current.at(-1).ts).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(existsSync(rotatedPath(path, 1))).toBe(true);
+    expect(existsSync(rotatedPath(path, 2))).toBe(true);
+    expect(existsSync(rotatedPath(path, 3))).toBe(false);
+    for (const file of [path, rotatedPath(path, 1), rotatedPath(path, 2)]) {
+      expect(readFileSync(file).length).toBeLessThanOrEqual(300);
+    }
+  });
+});
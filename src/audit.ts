@@ -0,0 +1,214 @@
+import { appendFileSync, existsSync, renameSync, statSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { type Failure, formatRestart, type RestartPlan } from "./health.ts";
+import type { DriverReason } from "./input-lock.ts";
+import { countEvent } from "./metrics.ts";
+import { formatIdentity } from "./tailnet-identity.ts";
+import { formatDuration, LOG_DIR, log } from "./utils.ts";
+
+type Transport = "ssh" | "web";
+
+// Every durable event. `conn` ties the events of one connection together.
+export type AuditEvent =
+  | { type: "server.start"; pid: number; ip: string; port: number; version: string }
+  | { type: "server.shutdown"; interactive: boolean }
+  | { type: "server.addresses"; added: string[]; removed: string[]; addresses: string[] }
+  | { type: "connection.open"; conn: string; transport: Transport; ip: string; client: string | null; active: number }
+  | { type: "connection.reject"; transport: Transport; ip: string; reason: string }
+  | {
+      type: "connection.close";
+      conn: string;
+      transport: Transport;
+      ip: string;
+      durationMs: number;
+      bytesIn: number;
+      bytesOut: number;
+      active: number;
+    }
+  | { type: "connection.idle"; conn: string; ip: string; timeoutMs: number }
+  | {
+      type: "connection.identity";
+      conn: string;
+      transport: Transport;
+      ip: string;
+      user: string | null; // tailnet login name, null for tagged devices
+      node: string | null; // null = the address is not on the tailnet
+      tags: string[];
+    }
+  | {
+      type: "auth.accept";
+      conn: string;
+      transport: Transport;
+      ip: string;
+      method: string; // "password", "publickey", "tailscale" or "none"; "+totp" when a code was also verified
+      user: string | null;
+      readOnly: boolean;
+      key: string | null; // authorized_keys comment
+    }
+  | {
+      type: "auth.fail";
+      conn: string;
+      transport: Transport;
+      ip: string;
+      method: string;
+      user: string | null;
+      lockoutMs: number | null; // set when this failure started a lockout
+      global: boolean; // the lockout applies to every address
+    }
+  | { type: "auth.locked"; conn: string; transport: Transport; ip: string }
+  | { type: "session.attach"; conn: string; transport: Transport; ip: string; session: string; readOnly: boolean }
+  | { type: "session.kick"; conn: string; transport: Transport; ip: string; session: string }
+  | {
+      type: "session.driver";
+      session: string;
+      holder: string | null; // connection ID now allowed to type, null = nobody
+      previous: string | null;
+      reason: DriverReason;
+    }
+  | { type: "terminal.resize"; session: string; cols: number; rows: number }
+  | {
+      type: "terminal.exit";
+      session: string;
+      cause: Failure;
+      action: RestartPlan["action"];
+      exitCode: number | null; // of our tmux client, null while it runs
+      attempt: number;
+      maxRestarts: number;
+      delayMs: number;
+    }
+  | { type: "terminal.restart"; session: string; action: RestartPlan["action"]; attempt: number }
+  | { type: "terminal.stable"; session: string; uptimeMs: number; restarts: number }
+  | { type: "terminal.giveup"; session: string; restarts: number };
+
+export interface AuditOptions {
+  path: string;
+  maxBytes: number; // rotate when the current file would grow past this
+  retain: number; // rotated files kept: audit.1.jsonl … audit.<retain>.jsonl
+}
+
+export const DEFAULT_AUDIT_OPTIONS: AuditOptions = {
+  path: join(LOG_DIR, "audit.jsonl"),
+  maxBytes: 5 * 1024 * 1024,
+  retain: 5,
+};
+
+let auditFile: { opts: AuditOptions; size: number } | null = null;
+
+export function startAudit(opts: AuditOptions = DEFAULT_AUDIT_OPTIONS): void {
+  auditFile = { opts, size: existsSync(opts.path) ? statSync(opts.path).size : 0 };
+}
+
+export function stopAudit(): void {
+  auditFile = null;
+}
+
+export function rotatedPath(path: string, index: number): string {
+  return path.replace(/(\.jsonl)?$/, `.${index}$1`);
+}
+
+function rotate(opts: AuditOptions): void {
+  const oldest = rotatedPath(opts.path, opts.retain);
+  if (existsSync(oldest)) unlinkSync(oldest);
+  for (let i = opts.retain - 1; i >= 1; i--) {
+    const from = rotatedPath(opts.path, i);
+    if (existsSync(from)) renameSync(from, rotatedPath(opts.path, i + 1));
+  }
+  if (existsSync(opts.path)) renameSync(opts.path, rotatedPath(opts.path, 1));
+}
+
+const RESTART_DONE: Record<RestartPlan["action"], string> = {
+  reattach: "reattached",
+  relaunch: "relaunched the agent",
+  respawn: "recreated",
+};
+
+/** Human-readable console line for an event. */
+export function formatEvent(event: AuditEvent): string {
+  const web = "transport" in event && event.transport === "web";
+  switch (event.type) {
+    case "server.start":
+      return `Server started: ${event.ip} port ${event.port} (PID ${event.pid}, v${event.version})`;
+    case "server.shutdown":
+      return `Shutdown requested (${event.interactive ? "interactive" : "SIGTERM"})`;
+    case "server.addresses": {
+      const changes = [...event.added.map((a) => `+${a}`), ...event.removed.map((a) => `-${a}`)].join(" ");
+      const listening = event.addresses.length > 0 ? event.addresses.join(", ") : "nothing, waiting for the network";
+      return `Addresses changed (${changes}), listening on ${listening}`;
+    }
+    case "connection.open":
+      return `${web ? "Web connection" : "Connection"} opened: ${event.ip}${web || !event.client ? "" : ` [${event.client}]`} (${event.active} active)`;
+    case "connection.reject":
+      return `Connection rejected (${event.reason}): ${event.ip}`;
+    case "connection.close":
+      return `${web ? "Web connection" : "Connection"} closed: ${event.ip} (${event.active} active)`;
+    case "connection.idle":
+      return `Idle timeout: ${event.ip} (${event.timeoutMs / 1000}s)`;
+    case "connection.identity": {
+      const { user, node, tags } = event;
+      return `Tailnet identity: ${event.ip} -> ${node ? formatIdentity({ user, node, tags }) : "unknown"}`;
+    }
+    case "auth.accept": {
+      const details = [
+        web ? "web" : null,
+        event.method.startsWith("publickey") ? `publickey${event.key ? ` ${event.key}` : ""}` : null,
+        event.method.startsWith("tailscale") ? "tailscale" : null,
+        event.method.endsWith("+totp") ? "totp" : null,
+      ];
+      if (event.method === "none") details.push("no-auth mode");
+      else if (event.readOnly) details.push("viewer");
+      const label = details.filter(Boolean).join(", ");
+      return `Auth accepted${label ? ` (${label})` : ""}: ${event.ip}`;
+    }
+    case "auth.fail": {
+      const method = ["publickey", "totp", "tailscale"].includes(event.method) ? event.method : null;
+      const label = [web ? "web" : null, method].filter(Boolean).join(", ");
+      const lockout = event.lockoutMs
+        ? ` (${event.global ? "failure budget exhausted, all logins paused" : "locked out"} for ${event.lockoutMs / 1000}s)`
+        : "";
+      return `Auth failed${label ? ` (${label})` : ""}: ${event.ip}${lockout}`;
+    }
+    case "auth.locked":
+      return `Auth rejected (${web ? "web, " : ""}locked out): ${event.ip}`;
+    case "session.attach": {
+      const label = [web ? "web" : null, event.readOnly ? "read-only" : null].filter(Boolean).join(", ");
+      return `Session attached${label ? ` (${label})` : ""}: ${event.ip} -> ${event.session}`;
+    }
+    case "session.kick":
+      return `Session kicked by the host${web ? " (web)" : ""}: ${event.ip} -> ${event.session}`;
+    case "session.driver": {
+      const was = event.previous ? `, was ${event.previous}` : "";
+      return `Driver of "${event.session}": ${event.holder ?? "nobody"} (${event.reason}${was})`;
+    }
+    case "terminal.resize":
+      return `Terminal "${event.session}" resized to ${event.cols}x${event.rows}`;
+    case "terminal.exit": {
+      const plan = { action: event.action, delayMs: event.delayMs };
+      return `Terminal "${event.session}": ${formatRestart(event.cause, plan, event.attempt, event.maxRestarts)}`;
+    }
+    case "terminal.restart":
+      return `Terminal "${event.session}" ${RESTART_DONE[event.action]}`;
+    case "terminal.stable":
+      return `Terminal "${event.session}" stable for ${formatDuration(event.uptimeMs)}, restart backoff reset after ${event.restarts} restart${event.restarts === 1 ? "" : "s"}`;
+    case "terminal.giveup":
+      return `Terminal "${event.session}" exceeded ${event.restarts} restarts, giving up`;
+  }
+}
+
+/**
+ * Records an event: one JSON line in the audit file (when started), a readable console
+ * line and the metrics counters, all derived from the same event.
+ */
+export function audit(event: AuditEvent): void {
+  log(formatEvent(event));
+  countEvent(event);
+  if (!auditFile) return;
+
+  const line = `${JSON.stringify({ ts: new Date().toISOString(), ...event })}\n`;
+  const bytes = Buffer.byteLength(line);
+  if (auditFile.size > 0 && auditFile.size + bytes > auditFile.opts.maxBytes) {
+    rotate(auditFile.opts);
+    auditFile.size = 0;
+  }
+  appendFileSync(auditFile.opts.path, line);
+  auditFile.size += bytes;
+}
@@ -0,0 +1,106 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  AUTH_LOCKOUT_MS,
+  clearAuthFailures,
+  isLockedOut,
+  loadAuthState,
+  lockoutDuration,
+  passwordMatches,
+  recordAuthFailure,
+} from "./auth.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "superintent-remote-auth-"));
+const statePath = join(dir, "auth-state.json");
+
+beforeEach(() => {
+  rmSync(statePath, { force: true });
+  loadAuthState(statePath);
+});
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function fail(ip: string, times: number, now: number) {
+  let result = recordAuthFailure(ip, now);
+  for (let i = 1; i < times; i++) result = recordAuthFailure(ip, now);
+  return result;
+}
+
+describe("lockoutDuration", () => {
+  test("doubles with every lockout up to an hour", () => {
+    expect(lockoutDuration(1)).toBe(AUTH_LOCKOUT_MS);
+    expect(lockoutDuration(2)).toBe(AUTH_LOCKOUT_MS * 2);
+    expect(lockoutDuration(3)).toBe(AUTH_LOCKOUT_MS * 4);
+    expect(lockoutDuration(20)).toBe(60 * 60_000);
+  });
+});
+
+describe("recordAuthFailure", () => {
+  test("locks an IP out after five failures, longer each time", () => {
+    const now = 1_000_000;
+    expect(fail("100.64.0.9", 4, now).lockoutMs).toBeNull();
+    expect(recordAuthFailure("100.64.0.9", now)).toEqual({ lockoutMs: AUTH_LOCKOUT_MS, global: false });
+    expect(isLockedOut("100.64.0.9", now + 1)).toBe(true);
+    expect(isLockedOut("100.64.0.10", now + 1)).toBe(false);
+
+    const later = now + AUTH_LOCKOUT_MS + 1;
+    expect(isLockedOut("100.64.0.9", later)).toBe(false);
+    expect(fail("100.64.0.9", 5, later).lockoutMs).toBe(AUTH_LOCKOUT_MS * 2);
+  });
+
+  test("a success resets the count but not the backoff", () => {
+    const now = 1_000_000;
+    fail("100.64.0.9", 5, now);
+    const later = now + AUTH_LOCKOUT_MS + 1;
+    fail("100.64.0.9", 4, later);
+    clearAuthFailures("100.64.0.9", later);
+    expect(fail("100.64.0.9", 4, later).lockoutMs).toBeNull();
+    expect(recordAuthFailure("100.64.0.9", later).lockoutMs).toBe(AUTH_LOCKOUT_MS * 2);
+  });
+
+  test("locks everyone out when the global budget is spent", () => {
+    const now = 1_000_000;
+    let result = recordAuthFailure("100.64.1.0", now);
+    for (let i = 1; i < 30; i++) result = recordAuthFailure(`100.64.1.${i}`, now);
+    expect(result.global).toBe(true);
+    expect(isLockedOut("100.64.2.1", now + 1)).toBe(true);
+  });
+
+  test("persists lockouts across restarts", () => {
+    const now = Date.now();
+    fail("100.64.0.9", 5, now);
+    expect(JSON.parse(readFileSync(statePath, "utf-8")).ips["100.64.0.9"].lockouts).toBe(1);
+
+    loadAuthState(statePath);
+    expect(isLockedOut("100.64.0.9", now + 1)).toBe(true);
+  });
+
+  test("keeps what another instance saved to the shared file", () => {
+    const now = Date.now();
+    fail("100.64.0.10", 2, now);
+    // Another instance, started earlier, locks out an address this one has not seen
+    const saved = JSON.parse(readFileSync(statePath, "utf-8"));
+    saved.ips["100.64.0.11"] = { count: 0, lockouts: 1, lockedUntil: now + AUTH_LOCKOUT_MS, lastFailureAt: now };
+    writeFileSync(statePath, JSON.stringify(saved));
+
+    expect(isLockedOut("100.64.0.11", now + 1)).toBe(true);
+    fail("100.64.0.10", 1, now + 2);
+    const ips = JSON.parse(readFileSync(statePath, "utf-8")).ips;
+    expect(ips["100.64.0.11"].lockouts).toBe(1);
+    expect(ips["100.64.0.10"].count).toBe(3);
+  });
+
+  test("writes the file without leaving a temporary copy", () => {
+    fail("100.64.0.12", 1, Date.now());
+    expect(readdirSync(dir)).toEqual(["auth-state.json"]);
+  });
+});
+
+describe("passwordMatches", () => {
+  test("compares exactly and never matches a disabled credential", () => {
+    expect(passwordMatches("secret", "secret")).toBe(true);
+    expect(passwordMatches("secret!", "secret")).toBe(false);
+    expect(passwordMatches("", null)).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { CACHE_DIR } from "./utils.ts";
+
+const MAX_AUTH_FAILURES = 5;
+export const AUTH_LOCKOUT_MS = 60_000; // first lockout; doubles with every repeat offence
+const MAX_LOCKOUT_MS = 60 * 60_000;
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60_000; // repeat offences are forgotten after a quiet day
+
+// Failures from all IPs combined — slows down attackers rotating addresses
+const GLOBAL_FAILURE_BUDGET = 30;
+const GLOBAL_WINDOW_MS = 10 * 60_000;
+const GLOBAL_LOCKOUT_MS = 5 * 60_000;
+
+export const AUTH_STATE_PATH = join(CACHE_DIR, "auth-state.json");
+
+interface IpRecord {
+  count: number; // failures since the last lockout or success
+  lockouts: number; // lockouts so far, for the backoff
+  lockedUntil: number;
+  lastFailureAt: number;
+}
+
+interface AuthState {
+  ips: Record<string, IpRecord>;
+  globalFailures: number[]; // timestamps within GLOBAL_WINDOW_MS
+  globalLockedUntil: number;
+}
+
+export interface AuthFailure {
+  lockoutMs: number | null; // set when this failure started a lockout
+  global: boolean; // the lockout applies to every address
+}
+
+// Shared by the SSH and web servers; persisted so a restart doesn't reset lockouts.
+// Instances on other ports share the file, so it is re-read before every check and change.
+let state: AuthState = { ips: {}, globalFailures: [], globalLockedUntil: 0 };
+let statePath: string | null = null;
+
+function readAuthState(path: string): AuthState | null {
+  if (!existsSync(path)) return null;
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    return {
+      ips: data.ips ?? {},
+      globalFailures: Array.isArray(data.globalFailures) ? data.globalFailures : [],
+      globalLockedUntil: data.globalLockedUntil ?? 0,
+    };
+  } catch {
+    // Corrupt file — start clean rather than refusing to run
+    return null;
+  }
+}
+
+/** Loads persisted lockouts and saves every later change to `path`. */
+export function loadAuthState(path: string = AUTH_STATE_PATH): void {
+  statePath = path;
+  state = readAuthState(path) ?? { ips: {}, globalFailures: [], globalLockedUntil: 0 };
+}
+
+/**
+ * Merges in what other instances saved. Every change here is saved at once, so the file's
+ * record of an address is the latest one; addresses only this instance knows are kept.
+ */
+function refreshAuthState(): void {
+  const saved = statePath && readAuthState(statePath);
+  if (!saved) return;
+  state = {
+    ips: { ...state.ips, ...saved.ips },
+    globalFailures: saved.globalFailures,
+    globalLockedUntil: Math.max(state.globalLockedUntil, saved.globalLockedUntil),
+  };
+}
+
+function saveAuthState(now: number): void {
+  for (const [ip, record] of Object.entries(state.ips)) {
+    if (record.lockedUntil < now && now - record.lastFailureAt > LOCKOUT_MEMORY_MS) delete state.ips[ip];
+  }
+  state.globalFailures = state.globalFailures.filter((t) => now - t < GLOBAL_WINDOW_MS);
+  if (!statePath) return;
+  // Written aside and renamed, so another instance never reads half a file
+  const temp = `${statePath}.${process.pid}.tmp`;
+  writeFileSync(temp, `${JSON.stringify(state)}\n`, { mode: 0o600 });
+  renameSync(temp, statePath);
+}
+
+export function lockoutDuration(lockouts: number): number {
+  return Math.min(AUTH_LOCKOUT_MS * 2 ** Math.max(0, lockouts - 1), MAX_LOCKOUT_MS);
+}
+
+export function recordAuthFailure(ip: string, now: number = Date.now()): AuthFailure {
+  refreshAuthState();
+  const record = state.ips[ip] ?? { count: 0, lockouts: 0, lockedUntil: 0, lastFailureAt: 0 };
+  if (now - record.lastFailureAt > LOCKOUT_MEMORY_MS) record.lockouts = 0;
+  record.count++;
+  record.lastFailureAt = now;
+  state.ips[ip] = record;
+
+  let result: AuthFailure = { lockoutMs: null, global: false };
+  if (record.count >= MAX_AUTH_FAILURES) {
+    record.count = 0;
+    record.lockouts++;
+    const lockoutMs = lockoutDuration(record.lockouts);
+    record.lockedUntil = now + lockoutMs;
+    result = { lockoutMs, global: false };
+  }
+
+  state.globalFailures = state.globalFailures.filter((t) => now - t < GLOBAL_WINDOW_MS);
+  state.globalFailures.push(now);
+  if (state.globalFailures.length >= GLOBAL_FAILURE_BUDGET && state.globalLockedUntil <= now) {
+    state.globalFailures = [];
+    state.globalLockedUntil = now + GLOBAL_LOCKOUT_MS;
+    result = { lockoutMs: GLOBAL_LOCKOUT_MS, global: true };
+  }
+
+  saveAuthState(now);
+  return result;
+}
+
+export function isLockedOut(ip: string, now: number = Date.now()): boolean {
+  refreshAuthState();
+  if (state.globalLockedUntil > now) return true;
+  return (state.ips[ip]?.lockedUntil ?? 0) > now;
+}
+
+/** Clears the failure count after a successful login. The backoff level is kept. */
+export function clearAuthFailures(ip: string, now: number = Date.now()): void {
+  refreshAuthState();
+  const record = state.ips[ip];
+  if (!record || record.count === 0) return;
+  record.count = 0;
+  saveAuthState(now);
+}
+
+export function passwordMatches(password: string, expected: string | null): boolean {
+  if (expected === null) return false;
+  const input = Buffer.from(password);
+  const target = Buffer.from(expected);
+  return input.length === target.length && timingSafeEqual(input, target);
+}
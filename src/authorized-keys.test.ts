@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { utils } from "ssh2";
+import { addressAllowed, findAuthorizedKey, parseAuthorizedKeys } from "./authorized-keys.ts";
+
+const phone = utils.generateKeyPairSync("ed25519", { comment: "phone" });
+const laptop = utils.generateKeyPairSync("ed25519", { comment: "laptop" });
+
+function publicKeyOf(pub: string) {
+  const parsed = utils.parseKey(pub);
+  if (parsed instanceof Error) throw parsed;
+  return { algo: parsed.type, data: parsed.getPublicSSH() };
+}
+
+describe("parseAuthorizedKeys", () => {
+  test("parses keys and skips comments and blank lines", () => {
+    const { keys } = parseAuthorizedKeys(`# my keys\n\n${phone.public}\n${laptop.public}\n`);
+    expect(keys.map((k) => k.key.comment)).toEqual(["phone", "laptop"]);
+    expect(keys[0].options).toEqual({ from: null, pty: true, portForwarding: true });
+  });
+
+  test("reads the options it enforces", () => {
+    const { keys } = parseAuthorizedKeys(`no-pty,from="100.64.0.0/10,!100.64.0.9" ${phone.public}`);
+    expect(keys).toHaveLength(1);
+    expect(keys[0].key.comment).toBe("phone");
+    expect(keys[0].options).toEqual({ from: ["100.64.0.0/10", "!100.64.0.9"], pty: false, portForwarding: true });
+  });
+
+  test("restrict turns off the terminal and forwarding; later options turn them back on", () => {
+    expect(parseAuthorizedKeys(`restrict ${phone.public}`).keys[0].options).toEqual({
+      from: null,
+      pty: false,
+      portForwarding: false,
+    });
+    expect(parseAuthorizedKeys(`restrict,pty ${phone.public}`).keys[0].options.pty).toBe(true);
+  });
+
+  test("accepts options for features the server does not offer", () => {
+    expect(parseAuthorizedKeys(`no-agent-forwarding,no-X11-forwarding ${phone.public}`).keys).toHaveLength(1);
+  });
+
+  test("ignores keys with options it cannot enforce and says why", () => {
+    const { keys, ignored } = parseAuthorizedKeys(
+      `${laptop.public}\ncommand="uptime",no-pty ${phone.public}\nenvironment="A=1" ${phone.public}\n`,
+    );
+    expect(keys.map((k) => k.key.comment)).toEqual(["laptop"]);
+    expect(ignored).toEqual(["line 2: unsupported option command", "line 3: unsupported option environment"]);
+  });
+
+  test("keeps quoted option values with spaces and commas together", () => {
+    const { ignored } = parseAuthorizedKeys(`command="echo a, b",from="10.0.0.1" ${phone.public}`);
+    expect(ignored).toEqual(["line 1: unsupported option command"]);
+  });
+
+  test("ignores malformed lines", () => {
+    const { keys } = parseAuthorizedKeys(`ssh-ed25519 not-base64\ngarbage\nfrom="unterminated ${phone.public}\n`);
+    expect(keys).toHaveLength(0);
+  });
+});
+
+describe("addressAllowed", () => {
+  test("allows any address without a from option", () => {
+    expect(addressAllowed(null, "203.0.113.5")).toBe(true);
+  });
+
+  test("matches CIDRs, wildcards and negations", () => {
+    const from = ["100.64.0.0/10", "192.168.1.*", "!100.64.0.9"];
+    expect(addressAllowed(from, "100.100.1.2")).toBe(true);
+    expect(addressAllowed(from, "::ffff:192.168.1.20")).toBe(true);
+    expect(addressAllowed(from, "100.64.0.9")).toBe(false);
+    expect(addressAllowed(from, "10.0.0.1")).toBe(false);
+  });
+
+  test("never matches host names, since peers are not resolved", () => {
+    expect(addressAllowed(["phone.example.com"], "100.64.0.7")).toBe(false);
+  });
+});
+
+describe("findAuthorizedKey", () => {
+  test("matches a listed key", () => {
+    const { keys } = parseAuthorizedKeys(phone.public);
+    expect(findAuthorizedKey(keys, publicKeyOf(phone.public), "100.64.0.7")?.key.comment).toBe("phone");
+  });
+
+  test("returns null for an unlisted key", () => {
+    const { keys } = parseAuthorizedKeys(phone.public);
+    expect(findAuthorizedKey(keys, publicKeyOf(laptop.public), "100.64.0.7")).toBeNull();
+  });
+
+  test("returns null when the key's from option excludes the address", () => {
+    const { keys } = parseAuthorizedKeys(`from="100.64.0.7" ${phone.public}`);
+    expect(findAuthorizedKey(keys, publicKeyOf(phone.public), "100.64.0.7")).not.toBeNull();
+    expect(findAuthorizedKey(keys, publicKeyOf(phone.public), "100.64.0.8")).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { existsSync, readFileSync } from "node:fs";
+import { isIP } from "node:net";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { ParsedKey, PublicKey } from "ssh2";
+import { utils } from "ssh2";
+import { parseCidr } from "./network-acl.ts";
+import { CACHE_DIR } from "./utils.ts";
+
+// Checked in order — the first file that exists wins
+export const AUTHORIZED_KEYS_PATHS = [join(CACHE_DIR, "authorized_keys"), join(homedir(), ".ssh", "authorized_keys")];
+
+// Key types accepted in OpenSSH authorized_keys format
+const KEY_TYPE_PATTERN =
+  /^(ssh-(ed25519|rsa|dss)|ecdsa-sha2-nistp(256|384|521)|sk-(ssh-ed25519|ecdsa-sha2-nistp256)@openssh\.com)$/;
+
+// Options for features this server never offers, so there is nothing to enforce
+const MOOT_OPTIONS = new Set([
+  "agent-forwarding",
+  "no-agent-forwarding",
+  "x11-forwarding",
+  "no-x11-forwarding",
+  "user-rc",
+  "no-user-rc",
+]);
+
+/** What a key may do, from the options in front of it. Keys with other options are not loaded. */
+export interface KeyOptions {
+  from: string[] | null; // `from="..."` address patterns (null = any address)
+  pty: boolean; // `no-pty` / `restrict` refuse the interactive terminal
+  portForwarding: boolean; // `no-port-forwarding` / `restrict` refuse `ssh -L`
+}
+
+export interface AuthorizedKey {
+  key: ParsedKey;
+  options: KeyOptions;
+}
+
+export interface AuthorizedKeys {
+  keys: AuthorizedKey[];
+  ignored: string[]; // why a key line was not loaded, e.g. "line 3: unsupported option command"
+}
+
+export function findAuthorizedKeysFile(): string | null {
+  for (const p of AUTHORIZED_KEYS_PATHS) {
+    if (existsSync(p)) return p;
+  }
+  return null;
+}
+
+/** Splits `no-pty,from="a,b" ssh-ed25519 AAAA…` into its options and the key. Null when malformed. */
+function splitOptions(line: string): { options: { name: string; value: string | null }[]; rest: string } | null {
+  if (KEY_TYPE_PATTERN.test(line.split(/\s+/)[0])) return { options: [], rest: line };
+  const options: { name: string; value: string | null }[] = [];
+  let i = 0;
+  while (i < line.length) {
+    const name = /^[A-Za-z0-9-]+/.exec(line.slice(i))?.[0];
+    if (!name) return null;
+    i += name.length;
+    let value: string | null = null;
+    if (line[i] === "=") {
+      if (line[i + 1] !== '"') return null;
+      value = "";
+      for (i += 2; i < line.length && line[i] !== '"'; i++) {
+        if (line[i] === "\\" && line[i + 1] === '"') i++;
+        value += line[i];
+      }
+      if (line[i] !== '"') return null;
+      i++;
+    }
+    options.push({ name: name.toLowerCase(), value });
+    if (line[i] === ",") {
+      i++;
+    } else if (/\s/.test(line[i] ?? "")) {
+      return { options, rest: line.slice(i).trim() };
+    } else {
+      return null;
+    }
+  }
+  return null;
+}
+
+function parseOptions(options: { name: string; value: string | null }[]): KeyOptions | string {
+  const result: KeyOptions = { from: null, pty: true, portForwarding: true };
+  for (const { name, value } of options) {
+    if (name === "from" && value !== null) {
+      result.from = value.split(",").map((pattern) => pattern.trim());
+    } else if (name === "restrict") {
+      result.pty = false;
+      result.portForwarding = false;
+    } else if (name === "pty" || name === "no-pty") {
+      result.pty = name === "pty";
+    } else if (name === "port-forwarding" || name === "no-port-forwarding") {
+      result.portForwarding = name === "port-forwarding";
+    } else if (!MOOT_OPTIONS.has(name)) {
+      return `unsupported option ${name}`;
+    }
+  }
+  return result;
+}
+
+export function parseAuthorizedKeys(content: string): AuthorizedKeys {
+  const result: AuthorizedKeys = { keys: [], ignored: [] };
+  for (const [index, line] of content.split("\n").entries()) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const split = splitOptions(trimmed);
+    const tokens = split?.rest.split(/\s+/) ?? [];
+    if (!split || !KEY_TYPE_PATTERN.test(tokens[0] ?? "") || !tokens[1]) continue;
+
+    const parsed = utils.parseKey(tokens.join(" "));
+    if (parsed instanceof Error) continue;
+
+    // A key the file limits in a way this server cannot enforce must not get full access
+    const options = parseOptions(split.options);
+    if (typeof options === "string") {
+      result.ignored.push(`line ${index + 1}: ${options}`);
+      continue;
+    }
+    result.keys.push({ key: parsed, options });
+  }
+  return result;
+}
+
+export function loadAuthorizedKeys(path: string): AuthorizedKeys {
+  try {
+    return parseAuthorizedKeys(readFileSync(path, "utf-8"));
+  } catch {
+    return { keys: [], ignored: [] };
+  }
+}
+
+function matchesPattern(pattern: string, ip: string): boolean {
+  if (pattern.includes("/")) {
+    try {
+      const rule = parseCidr(pattern);
+      return rule.list.check(ip, isIP(ip) === 4 ? "ipv4" : "ipv6");
+    } catch {
+      return false;
+    }
+  }
+  // Wildcards as in OpenSSH; host names are never matched, since peers are not resolved
+  const regex = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${regex}$`, "i").test(ip);
+}
+
+/** Checks a `from="..."` list: a matching `!pattern` refuses, otherwise some pattern must match. */
+export function addressAllowed(from: string[] | null, ip: string): boolean {
+  if (from === null) return true;
+  const address = ip.replace(/^::ffff:/, "").replace(/%.*$/, "");
+  if (isIP(address) === 0) return false;
+  if (from.some((p) => p.startsWith("!") && matchesPattern(p.slice(1), address))) return false;
+  return from.some((p) => !p.startsWith("!") && matchesPattern(p, address));
+}
+
+/** The listed key matching `key`, when its `from` option lets it be used from `ip`. */
+export function findAuthorizedKey(keys: AuthorizedKey[], key: PublicKey, ip: string): AuthorizedKey | null {
+  for (const candidate of keys) {
+    // Compare the wire-format blob — key.algo may name a signature algorithm (e.g. rsa-sha2-256)
+    if (candidate.key.getPublicSSH().equals(key.data) && addressAllowed(candidate.options.from, ip)) {
+      return candidate;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { diffAddresses, orderAddresses, parseBindAddress, urlHost } from "./bind-addresses.ts";
+
+describe("parseBindAddress", () => {
+  test("accepts IPv4 and IPv6 addresses, with or without brackets", () => {
+    expect(parseBindAddress(" 192.168.1.20 ")).toBe("192.168.1.20");
+    expect(parseBindAddress("[fd7a:115c:a1e0::1]")).toBe("fd7a:115c:a1e0::1");
+  });
+
+  test("rejects host names and CIDRs", () => {
+    expect(() => parseBindAddress("laptop.local")).toThrow("Invalid bind address");
+    expect(() => parseBindAddress("10.0.0.0/8")).toThrow("Invalid bind address");
+  });
+});
+
+describe("orderAddresses", () => {
+  test("puts IPv4 first, then Tailscale, LAN and explicit addresses, without duplicates", () => {
+    const ordered = orderAddresses([
+      { address: "fd7a:115c:a1e0::1", source: "tailscale" },
+      { address: "10.0.0.5", source: "bind" },
+      { address: "100.64.0.1", source: "tailscale" },
+      { address: "100.64.0.1", source: "bind" },
+    ]);
+    expect(ordered).toEqual([
+      { address: "100.64.0.1", source: "tailscale" },
+      { address: "10.0.0.5", source: "bind" },
+      { address: "fd7a:115c:a1e0::1", source: "tailscale" },
+    ]);
+  });
+});
+
+describe("diffAddresses", () => {
+  test("lists added and removed addresses", () => {
+    expect(diffAddresses(["192.168.1.20", "::1"], ["10.0.0.5", "::1"])).toEqual({
+      added: ["10.0.0.5"],
+      removed: ["192.168.1.20"],
+    });
+  });
+});
+
+describe("urlHost", () => {
+  test("brackets IPv6 addresses only", () => {
+    expect(urlHost("100.64.0.1")).toBe("100.64.0.1");
+    expect(urlHost("fd7a::1")).toBe("[fd7a::1]");
+  });
+});
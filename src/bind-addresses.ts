@@ -0,0 +1,60 @@
+import { isIP } from "node:net";
+import { getLocalIps, getTailscaleIps } from "./utils.ts";
+
+export type AddressSource = "tailscale" | "lan" | "bind";
+
+export interface BindAddress {
+  address: string;
+  source: AddressSource;
+}
+
+/** One address a server listens on. */
+export interface Listener {
+  address: string;
+  close(onClosed?: () => void): void; // stops accepting; open connections are left alone
+}
+
+// How often interfaces are checked for new or lost addresses
+export const ADDRESS_CHECK_MS = 10_000;
+
+const SOURCE_ORDER: AddressSource[] = ["tailscale", "lan", "bind"];
+
+/** Validates a --bind value: a literal IPv4 or IPv6 address. */
+export function parseBindAddress(value: string): string {
+  const address = value.trim().replace(/^\[(.*)\]$/, "$1");
+  if (isIP(address) === 0) throw new Error(`Invalid bind address: ${value} (expected an IP address)`);
+  return address;
+}
+
+/**
+ * Drops duplicates and orders the addresses for display: IPv4 before IPv6, then Tailscale,
+ * LAN and explicit ones. The first address is the one shown in Connect lines and the QR code.
+ */
+export function orderAddresses(addresses: BindAddress[]): BindAddress[] {
+  const unique = new Map<string, BindAddress>();
+  for (const entry of addresses) {
+    if (!unique.has(entry.address)) unique.set(entry.address, entry);
+  }
+  const rank = (entry: BindAddress) => (isIP(entry.address) === 6 ? 10 : 0) + SOURCE_ORDER.indexOf(entry.source);
+  return [...unique.values()].sort((a, b) => rank(a) - rank(b));
+}
+
+/** Tailscale addresses (or LAN addresses with --local) plus the explicit --bind ones. */
+export async function detectAddresses(opts: { local: boolean; bind: string[] }): Promise<BindAddress[]> {
+  const detected: BindAddress[] = opts.local
+    ? getLocalIps().map((address) => ({ address, source: "lan" }))
+    : (await getTailscaleIps()).map((address) => ({ address, source: "tailscale" }));
+  return orderAddresses([...detected, ...opts.bind.map((address) => ({ address, source: "bind" as const }))]);
+}
+
+export function diffAddresses(previous: string[], next: string[]): { added: string[]; removed: string[] } {
+  return {
+    added: next.filter((a) => !previous.includes(a)),
+    removed: previous.filter((a) => !next.includes(a)),
+  };
+}
+
+/** The host part of an ssh:// or http:// URL; IPv6 addresses need brackets. */
+export function urlHost(address: string): string {
+  return isIP(address) === 6 ? `[${address}]` : address;
+}
@@ -0,0 +1,165 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseCliArgs, readConfigFile, readEnvConfig, resolveConfig } from "./config.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "superintent-remote-config-"));
+mkdirSync(join(dir, ".superintent"));
+mkdirSync(join(dir, "api"));
+
+function writeProjectConfig(data: unknown): string {
+  const path = join(dir, ".superintent", "remote.json");
+  writeFileSync(path, typeof data === "string" ? data : JSON.stringify(data));
+  return path;
+}
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("parseCliArgs", () => {
+  test("accepts --flag value and --flag=value", () => {
+    const { values } = parseCliArgs(["--port", "2300", "--resize=latest", "--web"], dir);
+    expect(values).toEqual({ port: 2300, resize: "latest", web: true });
+  });
+
+  test("collects repeated --session flags", () => {
+    const { values } = parseCliArgs(["--session", "api=api"], dir);
+    expect(values.sessions).toEqual([{ name: "api", cwd: join(dir, "api") }]);
+  });
+
+  test("collects repeated --macro flags", () => {
+    const { values } = parseCliArgs(["--macro", "t=run the tests{enter}", "--macro=k=/clear{enter}"], dir);
+    expect(values.macros).toEqual([
+      { key: "t", text: "run the tests{enter}" },
+      { key: "k", text: "/clear{enter}" },
+    ]);
+    expect(() => parseCliArgs(["--macro", "e=x"], dir)).toThrow("Macro key e is reserved for ~e in --macro");
+  });
+
+  test("collects agent arguments and environment", () => {
+    const { values } = parseCliArgs(["--agent-arg=--model", "--agent-arg", "opus", "--agent-env", "FOO=1"], dir);
+    expect(values).toEqual({ agentArgs: ["--model", "opus"], agentEnv: ["FOO=1"] });
+  });
+
+  test("returns positionals as the command", () => {
+    expect(parseCliArgs(["config", "print"], dir).command).toEqual(["config", "print"]);
+  });
+
+  test("reads the metrics port", () => {
+    expect(parseCliArgs(["--metrics-port", "9464"], dir).values.metricsPort).toBe(9464);
+  });
+
+  test("reads driver mode and its idle timeout", () => {
+    const { values } = parseCliArgs(["--driver", "--driver-idle", "30"], dir);
+    expect(values.driver).toBe(true);
+    expect(values.driverIdleSeconds).toBe(30);
+  });
+
+  test("collects bind addresses from repeated and comma-separated flags", () => {
+    const { values } = parseCliArgs(["--bind", "192.168.1.20,::1", "--bind=[fd00::5]"], dir);
+    expect(values.bind).toEqual(["192.168.1.20", "::1", "fd00::5"]);
+  });
+
+  test("reads tailnet identities as a comma-separated list", () => {
+    const { values } = parseCliArgs(["--tailnet-allow", "alice@example.com,tag:ci"], dir);
+    expect(values.tailnetAllow).toEqual(["alice@example.com", "tag:ci"]);
+    expect(() => parseCliArgs(["--tailnet-allow", "not valid"], dir)).toThrow("Invalid tailnet rule");
+  });
+
+  test("suggests the closest flag for typos", () => {
+    expect(() => parseCliArgs(["--prot", "22"], dir)).toThrow("Unknown option: --prot (did you mean --port?)");
+  });
+
+  test("rejects malformed values", () => {
+    expect(() => parseCliArgs(["--port"], dir)).toThrow("--port requires a value");
+    expect(() => parseCliArgs(["--web=yes"], dir)).toThrow("--web does not take a value");
+    expect(() => parseCliArgs(["--port=99999"], dir)).toThrow("expected a port between 1 and 65535");
+    expect(() => parseCliArgs(["--resize", "biggest"], dir)).toThrow("expected smallest, latest, pinned");
+  });
+});
+
+describe("readEnvConfig", () => {
+  test("reads mapped variables and ignores empty ones", () => {
+    const values = readEnvConfig({ SUPERINTENT_REMOTE_PORT: "2400", SUPERINTENT_REMOTE_WEB: "", OTHER: "x" }, dir);
+    expect(values).toEqual({ port: 2400 });
+  });
+
+  test("reads the watchdog's stable uptime in seconds", () => {
+    expect(readEnvConfig({ SUPERINTENT_REMOTE_STABLE_UPTIME: "300" }, dir)).toEqual({ stableUptimeSeconds: 300 });
+  });
+
+  test("rejects malformed booleans", () => {
+    expect(() => readEnvConfig({ SUPERINTENT_REMOTE_YOLO: "maybe" }, dir)).toThrow("expected true or false");
+  });
+});
+
+describe("readConfigFile", () => {
+  test("returns an empty config when the file is missing", () => {
+    expect(readConfigFile(join(dir, "missing.json"), dir)).toEqual({});
+  });
+
+  test("reads typed values", () => {
+    const path = writeProjectConfig({ web: true, forward: [5173, 3000], sessions: { api: "api" } });
+    expect(readConfigFile(path, dir)).toEqual({
+      web: true,
+      forward: [3000, 5173],
+      sessions: [{ name: "api", cwd: join(dir, "api") }],
+    });
+  });
+
+  test("reads macros as an object", () => {
+    const path = writeProjectConfig({ macros: { y: "yes{enter}" } });
+    expect(readConfigFile(path, dir)).toEqual({ macros: [{ key: "y", text: "yes{enter}" }] });
+  });
+
+  test("rejects unknown keys with a suggestion", () => {
+    const path = writeProjectConfig({ webport: 3000 });
+    expect(() => readConfigFile(path, dir)).toThrow('Unknown option "webport"');
+    expect(() => readConfigFile(path, dir)).toThrow("did you mean webPort?");
+  });
+
+  test("refuses to disable authentication from a file", () => {
+    const path = writeProjectConfig({ noAuth: true });
+    expect(() => readConfigFile(path, dir)).toThrow("noAuth cannot be set");
+    const identity = writeProjectConfig({ tailnetAllow: ["tag:ci"] });
+    expect(() => readConfigFile(identity, dir)).toThrow("tailnetAllow cannot be set");
+  });
+
+  test("refuses to widen the allowlist from the project file", () => {
+    const path = writeProjectConfig({ allow: ["0.0.0.0/0"] });
+    expect(() => readConfigFile(path, dir)).toThrow("allow cannot be set");
+    expect(readConfigFile(path, dir, "user")).toEqual({ allow: ["0.0.0.0/0"] });
+    expect(readConfigFile(writeProjectConfig({ deny: ["10.0.0.0/8"] }), dir)).toEqual({ deny: ["10.0.0.0/8"] });
+  });
+
+  test("refuses listen addresses from the project file", () => {
+    expect(() => readConfigFile(writeProjectConfig({ bind: ["0.0.0.0"] }), dir)).toThrow("bind cannot be set");
+    expect(() => readConfigFile(writeProjectConfig({ local: true }), dir)).toThrow("local cannot be set");
+  });
+
+  test("reports invalid JSON", () => {
+    const path = writeProjectConfig("{ nope");
+    expect(() => readConfigFile(path, dir)).toThrow("Could not parse");
+  });
+});
+
+describe("resolveConfig", () => {
+  test("applies flags over env over the project file", () => {
+    writeProjectConfig({ port: 2500, web: true, maxRestarts: 3 });
+    const { config, sources } = resolveConfig({ port: 2700 }, { SUPERINTENT_REMOTE_PORT: "2600" }, dir);
+    expect(config.port).toBe(2700);
+    expect(sources.port).toBe("flag --port");
+    expect(config.web).toBe(true);
+    expect(sources.web).toStartWith("project");
+    expect(config.maxRestarts).toBe(3);
+    expect(config.noQr).toBe(false);
+    expect(sources.noQr).toBe("default");
+  });
+
+  test("attributes env values to their variable", () => {
+    writeProjectConfig({ port: 2500 });
+    const { config, sources } = resolveConfig({}, { SUPERINTENT_REMOTE_PORT: "2600" }, dir);
+    expect(config.port).toBe(2600);
+    expect(sources.port).toBe("env SUPERINTENT_REMOTE_PORT");
+  });
+});
@@ -0,0 +1,526 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { DEFAULT_AGENT, parseAgentEnv } from "./agent-launch.ts";
+import { parseBindAddress } from "./bind-addresses.ts";
+import { type Macro, parseMacro } from "./input-escapes.ts";
+import { DEFAULT_DRIVER_IDLE_MS } from "./input-lock.ts";
+import { parseCidr } from "./network-acl.ts";
+import { parseForwardPorts } from "./port-forward.ts";
+import { DEFAULT_MAX_RESTARTS, DEFAULT_STABLE_UPTIME_MS } from "./process-manager.ts";
+import { DEFAULT_IDLE_TIMEOUT_MS, DEFAULT_MAX_CONNECTIONS } from "./ssh-server.ts";
+import { parseTailnetRule } from "./tailnet-identity.ts";
+import { DEFAULT_MAX_SCROLLBACK, RESIZE_POLICIES, type ResizePolicy } from "./terminal.ts";
+import { CACHE_DIR, projectSessionName, SSH_PORT } from "./utils.ts";
+
+export interface SessionSpec {
+  name: string;
+  cwd: string;
+}
+
+export interface Config {
+  port: number;
+  local: boolean;
+  bind: string[]; // extra addresses to listen on
+  attach: string | null;
+  sessions: SessionSpec[]; // additional project sessions
+  noAuth: boolean;
+  noPassword: boolean;
+  tailnetAllow: string[]; // users, tags or machines admitted by tailnet identity (empty = off)
+  viewer: boolean;
+  web: boolean;
+  webPort: number | null; // null = SSH port + 1
+  webQr: boolean;
+  resize: ResizePolicy;
+  driver: boolean; // one client types at a time
+  driverIdleSeconds: number; // the input lock lapses after this long without input
+  sftp: boolean;
+  sftpReadOnly: boolean;
+  forward: number[];
+  allow: string[] | null; // null = the Tailscale ranges, or the local subnet with --local
+  deny: string[];
+  record: boolean;
+  recordInput: boolean;
+  yolo: boolean;
+  agent: string; // command typed into the pane, or "shell" for none
+  agentArgs: string[];
+  agentEnv: string[]; // KEY=VALUE
+  resume: boolean;
+  noQr: boolean;
+  maxConnections: number;
+  idleTimeoutSeconds: number;
+  scrollbackBytes: number;
+  maxRestarts: number;
+  stableUptimeSeconds: number; // healthy this long resets the restart backoff
+  macros: Macro[]; // `~<key>` input shortcuts
+  metricsPort: number | null; // null = no metrics endpoint
+}
+
+export type ConfigKey = keyof Config;
+
+export interface ResolvedConfig {
+  config: Config;
+  sources: Record<ConfigKey, string>; // where each value came from, for `config print`
+}
+
+export interface CliArgs {
+  values: Partial<Config>;
+  command: string[]; // positional arguments, e.g. ["config", "print"]
+  help: boolean;
+  version: boolean;
+  follow: boolean; // `logs --follow`
+}
+
+type ValueType =
+  | "boolean"
+  | "port"
+  | "count"
+  | "string"
+  | "resize"
+  | "ports"
+  | "sessions"
+  | "cidrs"
+  | "addresses"
+  | "tailnet"
+  | "macros"
+  | "args"
+  | "env";
+
+interface OptionDef {
+  flag: string;
+  type: ValueType;
+  env?: string;
+  flagOnly?: boolean; // refused in config files and the environment
+  userOnly?: boolean; // refused in the project file, which may be checked in
+}
+
+export const PROJECT_CONFIG_PATH = join(".superintent", "remote.json");
+export const USER_CONFIG_PATH = join(CACHE_DIR, "remote.json");
+
+const OPTIONS: Record<ConfigKey, OptionDef> = {
+  port: { flag: "port", type: "port", env: "SUPERINTENT_REMOTE_PORT" },
+  // Both choose the interfaces the server listens on — kept out of the project file like allow
+  local: { flag: "local", type: "boolean", userOnly: true },
+  bind: { flag: "bind", type: "addresses", env: "SUPERINTENT_REMOTE_BIND", userOnly: true },
+  attach: { flag: "attach", type: "string", env: "SUPERINTENT_REMOTE_ATTACH" },
+  sessions: { flag: "session", type: "sessions", env: "SUPERINTENT_REMOTE_SESSIONS" },
+  // A checked-in project file must never be able to turn authentication off
+  noAuth: { flag: "no-auth", type: "boolean", flagOnly: true },
+  noPassword: { flag: "no-password", type: "boolean", env: "SUPERINTENT_REMOTE_NO_PASSWORD" },
+  // Replaces passwords and keys, so it is held to the same standard as noAuth
+  tailnetAllow: { flag: "tailnet-allow", type: "tailnet", flagOnly: true },
+  viewer: { flag: "viewer", type: "boolean" },
+  web: { flag: "web", type: "boolean", env: "SUPERINTENT_REMOTE_WEB" },
+  webPort: { flag: "web-port", type: "port", env: "SUPERINTENT_REMOTE_WEB_PORT" },
+  webQr: { flag: "web-qr", type: "boolean" },
+  resize: { flag: "resize", type: "resize", env: "SUPERINTENT_REMOTE_RESIZE" },
+  driver: { flag: "driver", type: "boolean", env: "SUPERINTENT_REMOTE_DRIVER" },
+  driverIdleSeconds: { flag: "driver-idle", type: "count", env: "SUPERINTENT_REMOTE_DRIVER_IDLE" },
+  sftp: { flag: "sftp", type: "boolean" },
+  sftpReadOnly: { flag: "sftp-read-only", type: "boolean" },
+  forward: { flag: "forward", type: "ports", env: "SUPERINTENT_REMOTE_FORWARD" },
+  // Widens who can reach the login prompt, so a checked-in project file cannot set it
+  allow: { flag: "allow", type: "cidrs", env: "SUPERINTENT_REMOTE_ALLOW", userOnly: true },
+  deny: { flag: "deny", type: "cidrs", env: "SUPERINTENT_REMOTE_DENY" },
+  record: { flag: "record", type: "boolean", env: "SUPERINTENT_REMOTE_RECORD" },
+  recordInput: { flag: "record-input", type: "boolean" },
+  yolo: { flag: "yolo", type: "boolean", env: "SUPERINTENT_REMOTE_YOLO" },
+  agent: { flag: "agent", type: "string", env: "SUPERINTENT_REMOTE_AGENT" },
+  agentArgs: { flag: "agent-arg", type: "args", env: "SUPERINTENT_REMOTE_AGENT_ARGS" },
+  agentEnv: { flag: "agent-env", type: "env" },
+  resume: { flag: "resume", type: "boolean", env: "SUPERINTENT_REMOTE_RESUME" },
+  noQr: { flag: "no-qr", type: "boolean" },
+  maxConnections: { flag: "max-connections", type: "count", env: "SUPERINTENT_REMOTE_MAX_CONNECTIONS" },
+  idleTimeoutSeconds: { flag: "idle-timeout", type: "count", env: "SUPERINTENT_REMOTE_IDLE_TIMEOUT" },
+  scrollbackBytes: { flag: "scrollback", type: "count", env: "SUPERINTENT_REMOTE_SCROLLBACK" },
+  maxRestarts: { flag: "max-restarts", type: "count", env: "SUPERINTENT_REMOTE_MAX_RESTARTS" },
+  stableUptimeSeconds: { flag: "stable-uptime", type: "count", env: "SUPERINTENT_REMOTE_STABLE_UPTIME" },
+  macros: { flag: "macro", type: "macros" },
+  metricsPort: { flag: "metrics-port", type: "port", env: "SUPERINTENT_REMOTE_METRICS_PORT" },
+};
+
+const DEFAULTS: Config = {
+  port: SSH_PORT,
+  local: false,
+  bind: [],
+  attach: null,
+  sessions: [],
+  noAuth: false,
+  noPassword: false,
+  tailnetAllow: [],
+  viewer: false,
+  web: false,
+  webPort: null,
+  webQr: false,
+  resize: "smallest",
+  driver: false,
+  driverIdleSeconds: DEFAULT_DRIVER_IDLE_MS / 1000,
+  sftp: false,
+  sftpReadOnly: false,
+  forward: [],
+  allow: null,
+  deny: [],
+  record: false,
+  recordInput: false,
+  yolo: false,
+  agent: DEFAULT_AGENT,
+  agentArgs: [],
+  agentEnv: [],
+  resume: false,
+  noQr: false,
+  maxConnections: DEFAULT_MAX_CONNECTIONS,
+  idleTimeoutSeconds: DEFAULT_IDLE_TIMEOUT_MS / 1000,
+  scrollbackBytes: DEFAULT_MAX_SCROLLBACK,
+  maxRestarts: DEFAULT_MAX_RESTARTS,
+  stableUptimeSeconds: DEFAULT_STABLE_UPTIME_MS / 1000,
+  macros: [],
+  metricsPort: null,
+};
+
+const CONFIG_KEYS = Object.keys(OPTIONS) as ConfigKey[];
+
+export class ConfigError extends Error {}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestion(name: string, candidates: string[]): string {
+  let best: string | null = null;
+  let bestDistance = 3; // only suggest close matches
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` (did you mean ${best}?)` : "";
+}
+
+function parseSessions(entries: string[], cwd: string, origin: string): SessionSpec[] {
+  const sessions: SessionSpec[] = [];
+  const names = new Set([projectSessionName(cwd)]);
+  for (const entry of entries) {
+    const eqIndex = entry.indexOf("=");
+    const name = eqIndex === -1 ? "" : entry.slice(0, eqIndex).trim();
+    const dir = eqIndex === -1 ? "" : resolve(cwd, entry.slice(eqIndex + 1).trim());
+    if (!/^[a-zA-Z0-9_-]+$/.test(name) || !dir) {
+      throw new ConfigError(
+        `Invalid session in ${origin}: ${entry}\nExpected <name>=<dir>, where <name> uses only letters, digits, - and _.`,
+      );
+    }
+    if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+      throw new ConfigError(`Session directory not found in ${origin}: ${dir}`);
+    }
+    if (names.has(name)) {
+      throw new ConfigError(`Duplicate session name in ${origin}: ${name}`);
+    }
+    names.add(name);
+    sessions.push({ name, cwd: dir });
+  }
+  return sessions;
+}
+
+/**
+ * Converts a raw value from a flag, env var or JSON file into the option's type.
+ * Strings are accepted everywhere so flags and env vars share the same rules.
+ */
+function coerce(key: ConfigKey, raw: unknown, origin: string, cwd: string): Config[ConfigKey] {
+  const { type } = OPTIONS[key];
+  const invalid = (expected: string) =>
+    new ConfigError(`Invalid value for ${key} in ${origin}: ${JSON.stringify(raw)} (expected ${expected})`);
+
+  switch (type) {
+    case "boolean":
+      if (typeof raw === "boolean") return raw;
+      if (raw === "true" || raw === "1") return true;
+      if (raw === "false" || raw === "0") return false;
+      throw invalid("true or false");
+    case "port":
+    case "count": {
+      const value = typeof raw === "string" && raw.trim() !== "" ? Number(raw) : raw;
+      const max = type === "port" ? 65535 : Number.MAX_SAFE_INTEGER;
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > max) {
+        throw invalid(type === "port" ? "a port between 1 and 65535" : "a positive integer");
+      }
+      return value;
+    }
+    case "string":
+      if (typeof raw !== "string" || raw.trim() === "") throw invalid("a non-empty string");
+      return raw.trim();
+    case "resize":
+      if (!RESIZE_POLICIES.includes(raw as ResizePolicy)) throw invalid(RESIZE_POLICIES.join(", "));
+      return raw as ResizePolicy;
+    case "ports":
+      if (Array.isArray(raw)) raw = raw.join(",");
+      if (typeof raw !== "string") throw invalid('a port list like [3000, 5173] or "3000,5173"');
+      try {
+        return parseForwardPorts(raw);
+      } catch (err) {
+        throw new ConfigError(`${err instanceof Error ? err.message : err} in ${origin}`);
+      }
+    case "cidrs": {
+      const entries = typeof raw === "string" ? raw.split(",").filter((s) => s.trim()) : raw;
+      if (!Array.isArray(entries) || !entries.every((e) => typeof e === "string")) {
+        throw invalid('a CIDR list like ["10.0.0.0/8"] or "10.0.0.0/8,fd00::/8"');
+      }
+      try {
+        return entries.map((e) => parseCidr(e).cidr);
+      } catch (err) {
+        throw new ConfigError(`${err instanceof Error ? err.message : err} in ${origin}`);
+      }
+    }
+    case "addresses": {
+      // Repeated flags, a comma-separated string or an array
+      const entries = typeof raw === "string" ? [raw] : raw;
+      if (!Array.isArray(entries) || !entries.every((e) => typeof e === "string")) {
+        throw invalid('an address list like ["192.168.1.20", "::1"] or "192.168.1.20,::1"');
+      }
+      try {
+        return entries.flatMap((e) => e.split(",").filter((s) => s.trim())).map(parseBindAddress);
+      } catch (err) {
+        throw new ConfigError(`${err instanceof Error ? err.message : err} in ${origin}`);
+      }
+    }
+    case "tailnet": {
+      const entries = typeof raw === "string" ? raw.split(",").filter((s) => s.trim()) : raw;
+      if (!Array.isArray(entries) || !entries.every((e) => typeof e === "string")) {
+        throw invalid('an identity list like "alice@example.com,tag:laptop"');
+      }
+      try {
+        return entries.map(parseTailnetRule);
+      } catch (err) {
+        throw new ConfigError(`${err instanceof Error ? err.message : err} in ${origin}`);
+      }
+    }
+    case "sessions": {
+      let entries: unknown[];
+      if (typeof raw === "string") entries = raw.split(",").filter((s) => s.trim());
+      else if (Array.isArray(raw)) entries = raw;
+      else if (raw && typeof raw === "object") entries = Object.entries(raw).map(([name, dir]) => `${name}=${dir}`);
+      else throw invalid('{ "<name>": "<dir>" } or ["<name>=<dir>"]');
+      if (!entries.every((e) => typeof e === "string")) throw invalid('["<name>=<dir>"]');
+      return parseSessions(entries as string[], cwd, origin);
+    }
+    case "args": {
+      // A single string (env var) is split on whitespace; use an array for arguments with spaces
+      const entries = typeof raw === "string" ? raw.split(/\s+/).filter(Boolean) : raw;
+      if (!Array.isArray(entries) || !entries.every((e) => typeof e === "string")) {
+        throw invalid('an argument list like ["--model", "opus"]');
+      }
+      return entries;
+    }
+    case "env": {
+      let entries: unknown[];
+      if (Array.isArray(raw)) entries = raw;
+      else if (raw && typeof raw === "object") entries = Object.entries(raw).map(([name, value]) => `${name}=${value}`);
+      else throw invalid('{ "<NAME>": "<value>" } or ["<NAME>=<value>"]');
+      if (!entries.every((e) => typeof e === "string")) throw invalid('["<NAME>=<value>"]');
+      try {
+        return entries.map((e) => parseAgentEnv(e as string));
+      } catch (err) {
+        throw new ConfigError(`${err instanceof Error ? err.message : err} in ${origin}`);
+      }
+    }
+    case "macros": {
+      let entries: unknown[];
+      if (Array.isArray(raw)) entries = raw;
+      else if (raw && typeof raw === "object") entries = Object.entries(raw).map(([key, text]) => `${key}=${text}`);
+      else throw invalid('{ "<key>": "<text>" } or ["<key>=<text>"]');
+      if (!entries.every((e) => typeof e === "string")) throw invalid('["<key>=<text>"]');
+      const macros = new Map<string, Macro>();
+      for (const entry of entries as string[]) {
+        try {
+          const macro = parseMacro(entry);
+          macros.set(macro.key, macro); // a later definition of the same key wins
+        } catch (err) {
+          throw new ConfigError(`${err instanceof Error ? err.message : err} in ${origin}`);
+        }
+      }
+      return [...macros.values()];
+    }
+  }
+}
+
+/** Parses argv with node:util — supports `--flag value` and `--flag=value`. */
+export function parseCliArgs(argv: string[], cwd: string = process.cwd()): CliArgs {
+  const options: Record<string, { type: "boolean" | "string"; multiple?: boolean; short?: string }> = {
+    help: { type: "boolean", short: "h" },
+    version: { type: "boolean", short: "v" },
+    follow: { type: "boolean", short: "f" },
+  };
+  for (const key of CONFIG_KEYS) {
+    const def = OPTIONS[key];
+    const multiple = ["sessions", "macros", "args", "env", "addresses"].includes(def.type);
+    options[def.flag] = { type: def.type === "boolean" ? "boolean" : "string", multiple };
+  }
+
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({ args: argv, options, allowPositionals: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const code = (err as { code?: string }).code;
+    const option = message.match(/'(-[^' ]+)/)?.[1] ?? "";
+    if (code === "ERR_PARSE_ARGS_UNKNOWN_OPTION") {
+      const flags = Object.keys(options).map((f) => `--${f}`);
+      throw new ConfigError(`Unknown option: ${option}${suggestion(option, flags)}`);
+    }
+    if (code === "ERR_PARSE_ARGS_INVALID_OPTION_VALUE") {
+      const takesValue = options[option.replace(/^--/, "")]?.type === "string";
+      throw new ConfigError(takesValue ? `${option} requires a value` : `${option} does not take a value`);
+    }
+    throw new ConfigError(message);
+  }
+
+  const values: Partial<Config> = {};
+  for (const key of CONFIG_KEYS) {
+    const raw = parsed.values[OPTIONS[key].flag];
+    if (raw === undefined) continue;
+    Object.assign(values, { [key]: coerce(key, raw, `--${OPTIONS[key].flag}`, cwd) });
+  }
+
+  return {
+    values,
+    command: parsed.positionals,
+    help: parsed.values.help === true,
+    version: parsed.values.version === true,
+    follow: parsed.values.follow === true,
+  };
+}
+
+export function readEnvConfig(env: Record<string, string | undefined>, cwd: string = process.cwd()): Partial<Config> {
+  const values: Partial<Config> = {};
+  for (const key of CONFIG_KEYS) {
+    const name = OPTIONS[key].env;
+    const raw = name ? env[name] : undefined;
+    if (!name || raw === undefined || raw === "") continue;
+    Object.assign(values, { [key]: coerce(key, raw, name, cwd) });
+  }
+  return values;
+}
+
+/**
+ * Reads a remote.json file. Returns an empty config when the file does not exist. The
+ * project file may come from someone else's commit, so it cannot set `userOnly` options.
+ */
+export function readConfigFile(
+  path: string,
+  cwd: string = process.cwd(),
+  scope: "user" | "project" = "project",
+): Partial<Config> {
+  if (!existsSync(path)) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new ConfigError(`Could not parse ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ConfigError(`${path} must contain a JSON object`);
+  }
+
+  const values: Partial<Config> = {};
+  for (const [key, raw] of Object.entries(data)) {
+    if (!(key in OPTIONS)) {
+      throw new ConfigError(`Unknown option "${key}" in ${path}${suggestion(key, CONFIG_KEYS)}`);
+    }
+    const configKey = key as ConfigKey;
+    if (OPTIONS[configKey].flagOnly) {
+      throw new ConfigError(`${key} cannot be set in ${path} — use --${OPTIONS[configKey].flag}`);
+    }
+    if (OPTIONS[configKey].userOnly && scope === "project") {
+      throw new ConfigError(
+        `${key} cannot be set in ${path} — use --${OPTIONS[configKey].flag} or ${USER_CONFIG_PATH}`,
+      );
+    }
+    Object.assign(values, { [key]: coerce(configKey, raw, path, cwd) });
+  }
+  return values;
+}
+
+/** Merges every source. Precedence: flags > env > project file > user file > defaults. */
+export function resolveConfig(
+  flags: Partial<Config>,
+  env: Record<string, string | undefined> = process.env,
+  cwd: string = process.cwd(),
+): ResolvedConfig {
+  const projectPath = join(cwd, PROJECT_CONFIG_PATH);
+  const layers: [string, Partial<Config>][] = [
+    [`user (${USER_CONFIG_PATH})`, readConfigFile(USER_CONFIG_PATH, cwd, "user")],
+    [`project (${projectPath})`, readConfigFile(projectPath, cwd)],
+    ["env", readEnvConfig(env, cwd)],
+    ["flag", flags],
+  ];
+
+  const config = { ...DEFAULTS };
+  const sources = Object.fromEntries(CONFIG_KEYS.map((key) => [key, "default"])) as Record<ConfigKey, string>;
+  for (const [source, values] of layers) {
+    for (const key of Object.keys(values) as ConfigKey[]) {
+      Object.assign(config, { [key]: values[key] });
+      if (source === "env") sources[key] = `env ${OPTIONS[key].env}`;
+      else if (source === "flag") sources[key] = `flag --${OPTIONS[key].flag}`;
+      else sources[key] = source;
+    }
+  }
+  return { config, sources };
+}
+
+function formatValue(value: Config[ConfigKey]): string {
+  if (value === null) return "—";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "—";
+    return value
+      .map((v) => {
+        if (typeof v !== "object") return String(v);
+        return "cwd" in v ? `${v.name}=${v.cwd}` : `${v.key}=${v.text}`;
+      })
+      .join(",");
+  }
+  return String(value);
+}
+
+/** Effective config as an aligned table, for `superintent-remote config print`. */
+export function formatConfig({ config, sources }: ResolvedConfig): string {
+  const rows = CONFIG_KEYS.map((key) => [key, formatValue(config[key]), sources[key]]);
+  const keyWidth = Math.max(...rows.map((r) => r[0].length)) + 2;
+  const valueWidth = Math.max(...rows.map((r) => r[1].length)) + 2;
+  return rows.map(([key, value, source]) => `${key.padEnd(keyWidth)}${value.padEnd(valueWidth)}${source}`).join("\n");
+}
+
+/** Loads .superintent/.env into process.env without overriding variables that are already set. */
+export function loadEnvFile(cwd: string = process.cwd()): void {
+  const envPath = join(cwd, ".superintent", ".env");
+  try {
+    const content = readFileSync(envPath, "utf-8");
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+      const eqIndex = trimmed.indexOf("=");
+      if (eqIndex === -1) continue;
+      const key = trimmed.slice(0, eqIndex).trim();
+      const value = trimmed
+        .slice(eqIndex + 1)
+        .trim()
+        .replace(/^["']|["']$/g, "");
+      // Don't override existing env vars
+      if (!process.env[key]) {
+        process.env[key] = value;
+      }
+    }
+  } catch {
+    // File doesn't exist — that's fine
+  }
+}
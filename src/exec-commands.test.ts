@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { runExecCommand } from "./exec-commands.ts";
+import { claimInput } from "./input-lock.ts";
+import type { ClientPresence } from "./presence.ts";
+import { createSession, type TerminalClient, type TerminalSession } from "./terminal.ts";
+
+function presence(conn: string, identity: string | null = null): ClientPresence {
+  return { conn, transport: "ssh", ip: "100.64.0.7", identity, auth: "password", software: null, connectedAt: 0 };
+}
+
+/** A registered session whose PTY records what is typed into it instead of running tmux. */
+function fakeSession(name: string, driver = false): { session: TerminalSession; typed: string[] } {
+  const session = createSession({ name, tmuxSession: name, cwd: "/tmp", driver: driver ? { idleMs: 60_000 } : null });
+  const typed: string[] = [];
+  session.terminal = { write: (data: string) => typed.push(data) } as unknown as TerminalSession["terminal"];
+  return { session, typed };
+}
+
+function attach(session: TerminalSession, who: ClientPresence): void {
+  const client: TerminalClient = { write: () => {} } as unknown as TerminalClient;
+  session.clients.set(client, { cols: 80, rows: 24, readOnly: false, pinned: false, activeAt: 0, presence: who });
+}
+
+describe("runExecCommand", () => {
+  test("read-only connections may look but not type or restart", async () => {
+    const { session, typed } = fakeSession("exec-viewer");
+    const ctx = { session, sessions: [session], readOnly: true };
+    for (const command of ["status", "who", "help"]) {
+      expect((await runExecCommand(command, ctx)).exitCode).toBe(0);
+    }
+    expect(await runExecCommand("send ls", ctx)).toEqual({
+      stdout: "",
+      stderr: "send: not allowed for read-only connections\n",
+      exitCode: 1,
+    });
+    expect((await runExecCommand("restart", ctx)).stderr).toBe("restart: not allowed for read-only connections\n");
+    expect(typed).toEqual([]);
+  });
+
+  test("send types the line followed by Enter", async () => {
+    const { session, typed } = fakeSession("exec-send");
+    expect((await runExecCommand("send git status", { session, sessions: [session], readOnly: false })).exitCode).toBe(
+      0,
+    );
+    expect(typed).toEqual(["git status\r"]);
+  });
+
+  test("send is refused while another client drives", async () => {
+    const { session, typed } = fakeSession("exec-driver", true);
+    attach(session, presence("a1b2", "alice@example.com on phone"));
+    if (!session.inputLock) throw new Error("driver mode is off");
+    claimInput(session.inputLock, "a1b2", Date.now());
+
+    const result = await runExecCommand("send ls", { session, sessions: [session], readOnly: false });
+    expect(result).toEqual({
+      stdout: "",
+      stderr: "send: alice@example.com on phone has control (driver mode)\n",
+      exitCode: 1,
+    });
+    expect(typed).toEqual([]);
+  });
+
+  test("send goes through in driver mode when nobody has control", async () => {
+    const { session, typed } = fakeSession("exec-idle-driver", true);
+    attach(session, presence("a1b2"));
+    expect((await runExecCommand("send ls", { session, sessions: [session], readOnly: false })).exitCode).toBe(0);
+    expect(typed).toEqual(["ls\r"]);
+  });
+
+  test("asks for a session when the username matched none of several", async () => {
+    const sessions = [fakeSession("exec-api").session, fakeSession("exec-web").session];
+    const result = await runExecCommand("status", { session: null, sessions, readOnly: false });
+    expect(result.stderr).toBe(
+      "Several sessions are running (exec-api, exec-web). Connect as <session>@host to choose one.\n",
+    );
+  });
+
+  test("unknown commands exit 127 with the help", async () => {
+    const result = await runExecCommand("rm -rf /", { session: null, sessions: [], readOnly: false });
+    expect(result.exitCode).toBe(127);
+    expect(result.stderr).toStartWith("Unknown command: rm\n\nUsage:");
+  });
+});
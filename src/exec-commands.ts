@@ -0,0 +1,116 @@
+import { formatHealth } from "./health.ts";
+import { describeClient, formatWho } from "./presence.ts";
+import {
+  capturePane,
+  driverPresence,
+  getScrollback,
+  listPresence,
+  restartTerminal,
+  type TerminalSession,
+  writeToTerminal,
+} from "./terminal.ts";
+import { formatDuration } from "./utils.ts";
+
+export interface ExecContext {
+  session: TerminalSession | null; // null when the username matches no session and several are running
+  sessions: TerminalSession[];
+  readOnly: boolean;
+}
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+const HELP = `Usage: ssh <session>@host -p <port> <command>
+
+Commands:
+  status         Session name, mode, uptime, clients and restart count
+  who            Connected clients: who, from where, with what, and idle time
+  send <text>    Type a line into the session (followed by Enter)
+  snapshot       Print the current screen
+  history        Print the scrollback history as plain text
+  restart        Restart the terminal through the watchdog
+  help           Show this help
+`;
+
+// Commands a read-only viewer may run
+const READ_ONLY_COMMANDS = new Set(["status", "who", "snapshot", "history", "help"]);
+
+function ok(stdout: string): ExecResult {
+  return { stdout, stderr: "", exitCode: 0 };
+}
+
+function fail(stderr: string, exitCode = 1): ExecResult {
+  return { stdout: "", stderr: stderr.endsWith("\n") ? stderr : `${stderr}\n`, exitCode };
+}
+
+function formatStatus(session: TerminalSession): string {
+  const readOnly = [...session.clients.values()].filter((c) => c.readOnly).length;
+  const mode = `${session.yolo ? "YOLO" : "Normal"}${session.attached ? " (attached)" : ""}`;
+  const lines = [
+    `Session    ${session.name}`,
+    `Project    ${session.cwd}`,
+    `Tmux       ${session.tmuxSession}`,
+    `Mode       ${mode}`,
+    `Uptime     ${formatDuration(Date.now() - session.createdAt)}`,
+    `Clients    ${session.clients.size}${readOnly > 0 ? ` (${readOnly} read-only)` : ""}`,
+    `Restarts   ${session.restarts}`,
+    `Terminal   ${session.proc ? `${session.cols}x${session.rows}` : "not running"}`,
+    `Health     ${formatHealth(session.health)}`,
+  ];
+  if (session.inputLock) {
+    const driver = driverPresence(session);
+    lines.push(`Driver     ${driver ? `${describeClient(driver)} (${driver.conn})` : "nobody"}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export async function runExecCommand(command: string, ctx: ExecContext): Promise<ExecResult> {
+  const trimmed = command.trim();
+  const spaceIndex = trimmed.indexOf(" ");
+  const name = spaceIndex === -1 ? trimmed : trimmed.slice(0, spaceIndex);
+  const rest = spaceIndex === -1 ? "" : trimmed.slice(spaceIndex + 1);
+
+  if (name === "" || name === "help") return ok(HELP);
+
+  if (!["status", "who", "send", "snapshot", "history", "restart"].includes(name)) {
+    return fail(`Unknown command: ${name}\n\n${HELP}`, 127);
+  }
+  if (ctx.readOnly && !READ_ONLY_COMMANDS.has(name)) {
+    return fail(`${name}: not allowed for read-only connections`);
+  }
+
+  const session = ctx.session;
+  if (!session) {
+    const names = ctx.sessions.map((s) => s.name).join(", ");
+    return fail(`Several sessions are running (${names}). Connect as <session>@host to choose one.`);
+  }
+
+  switch (name) {
+    case "status":
+      return ok(formatStatus(session));
+    case "who":
+      return ok(`${formatWho(listPresence(session))}\n`);
+    case "send": {
+      if (!rest) return fail("Usage: send <text>");
+      if (!session.terminal) return fail("Terminal is not running");
+      // In driver mode only the client in control types; a script waits until nobody is
+      const driver = driverPresence(session);
+      if (driver) return fail(`send: ${describeClient(driver)} has control (driver mode)`);
+      writeToTerminal(session, `${rest}\r`);
+      return ok("");
+    }
+    case "snapshot": {
+      const screen = await capturePane(session);
+      return screen === null ? fail("Could not capture the tmux pane") : ok(screen);
+    }
+    case "history": {
+      const history = await getScrollback(session);
+      return history === null ? fail("Could not capture the tmux pane") : ok(history);
+    }
+    default:
+      return restartTerminal(session) ? ok("Restarting terminal...\n") : fail("Terminal is not running");
+  }
+}
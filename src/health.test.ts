@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { classifyHealth, formatRestart, type HealthSample, isShell, restartPlan } from "./health.ts";
+
+describe("classifyHealth", () => {
+  const healthy: HealthSample = { clientAlive: true, pane: { command: "claude", dead: false }, agent: "launched" };
+
+  test("reports a running agent as healthy", () => {
+    expect(classifyHealth(healthy)).toBe("healthy");
+  });
+
+  test("tells a lost tmux session from a lost client", () => {
+    expect(classifyHealth({ ...healthy, clientAlive: false, pane: null })).toBe("server-gone");
+    expect(classifyHealth({ ...healthy, clientAlive: false })).toBe("client-died");
+  });
+
+  test("notices the agent exiting to the shell or a dead pane", () => {
+    expect(classifyHealth({ ...healthy, pane: { command: "zsh", dead: false } })).toBe("agent-exited");
+    expect(classifyHealth({ ...healthy, pane: { command: "-bash", dead: false } })).toBe("agent-exited");
+    expect(classifyHealth({ ...healthy, pane: { command: "claude", dead: true } })).toBe("agent-exited");
+  });
+
+  test("ignores the shell while launching or without an agent", () => {
+    const atPrompt = { ...healthy, pane: { command: "bash", dead: false } };
+    expect(classifyHealth({ ...atPrompt, agent: "launching" })).toBe("starting");
+    expect(classifyHealth({ ...atPrompt, agent: "none" })).toBe("healthy");
+  });
+});
+
+describe("isShell", () => {
+  test("matches common shells only", () => {
+    expect(isShell("fish")).toBe(true);
+    expect(isShell("node")).toBe(false);
+    expect(isShell("vim")).toBe(false);
+  });
+});
+
+describe("restartPlan", () => {
+  test("reattaches a lost client quickly", () => {
+    expect(restartPlan("client-died", 5)).toEqual({ action: "reattach", delayMs: 1000 });
+  });
+
+  test("backs off exponentially for the agent and the tmux session", () => {
+    expect(restartPlan("agent-exited", 1)).toEqual({ action: "relaunch", delayMs: 2000 });
+    expect(restartPlan("server-gone", 3)).toEqual({ action: "respawn", delayMs: 8000 });
+    expect(restartPlan("server-gone", 10).delayMs).toBe(60_000);
+  });
+});
+
+describe("formatRestart", () => {
+  test("describes the failure and what happens next", () => {
+    expect(formatRestart("agent-exited", restartPlan("agent-exited", 1), 1, 10)).toBe(
+      "agent exited, relaunching the agent in 2s... (attempt 1/10)",
+    );
+  });
+});
@@ -0,0 +1,87 @@
+// What the watchdog last saw for a session's terminal
+export type HealthState =
+  | "starting" // the agent command is being launched
+  | "healthy"
+  | "agent-exited" // the pane is back at the shell prompt
+  | "client-died" // our tmux client ended, the tmux session is still there
+  | "server-gone" // the tmux session (or the whole tmux server) is gone
+  | "failed"; // too many restarts, the watchdog gave up
+
+export type Failure = "agent-exited" | "client-died" | "server-gone";
+
+/** The agent pane, from `tmux list-panes`; null when the tmux session does not exist. */
+export interface PaneStatus {
+  command: string; // pane_current_command, the foreground process
+  dead: boolean; // pane_dead, with remain-on-exit
+}
+
+export interface HealthSample {
+  clientAlive: boolean;
+  pane: PaneStatus | null;
+  agent: "none" | "launching" | "launched"; // "none" for a plain shell or an attached session
+}
+
+// A foreground shell in the agent pane means the agent is no longer running
+const SHELLS = new Set(["sh", "bash", "zsh", "fish", "dash", "ksh", "mksh", "tcsh", "csh", "nu", "elvish"]);
+
+export function isShell(command: string): boolean {
+  return SHELLS.has(command.replace(/^-/, "")); // login shells show as "-zsh"
+}
+
+/** The tmux session is checked first: when the server dies, our client exits with it. */
+export function classifyHealth(sample: HealthSample): "starting" | "healthy" | Failure {
+  if (!sample.pane) return "server-gone";
+  if (!sample.clientAlive) return "client-died";
+  if (sample.agent === "launching") return "starting";
+  if (sample.agent === "launched" && (sample.pane.dead || isShell(sample.pane.command))) return "agent-exited";
+  return "healthy";
+}
+
+export interface RestartPlan {
+  action: "reattach" | "relaunch" | "respawn";
+  delayMs: number;
+}
+
+const MAX_BACKOFF_MS = 60_000;
+const REATTACH_DELAY_MS = 1000;
+
+/**
+ * How each failure is recovered. A lost client only needs a new `attach-session`, and the
+ * agent keeps running, so it is retried quickly; an exited agent is typed again into the same
+ * pane, and a lost tmux session is recreated, both with exponential backoff.
+ */
+export function restartPlan(failure: Failure, attempt: number): RestartPlan {
+  const backoff = Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS);
+  switch (failure) {
+    case "client-died":
+      return { action: "reattach", delayMs: REATTACH_DELAY_MS };
+    case "agent-exited":
+      return { action: "relaunch", delayMs: backoff };
+    case "server-gone":
+      return { action: "respawn", delayMs: backoff };
+  }
+}
+
+const LABELS: Record<HealthState, string> = {
+  starting: "starting",
+  healthy: "healthy",
+  "agent-exited": "agent exited",
+  "client-died": "tmux client exited",
+  "server-gone": "tmux session gone",
+  failed: "failed (gave up restarting)",
+};
+
+export function formatHealth(state: HealthState): string {
+  return LABELS[state];
+}
+
+const ACTIONS: Record<RestartPlan["action"], string> = {
+  reattach: "reattaching",
+  relaunch: "relaunching the agent",
+  respawn: "recreating the session",
+};
+
+/** E.g. "agent exited, relaunching the agent in 2s... (attempt 1/10)", for the log and clients. */
+export function formatRestart(failure: Failure, plan: RestartPlan, attempt: number, maxRestarts: number): string {
+  return `${LABELS[failure]}, ${ACTIONS[plan.action]} in ${plan.delayMs / 1000}s... (attempt ${attempt}/${maxRestarts})`;
+}
@@ -1,66 +1,360 @@
 #!/usr/bin/env bun
 
+import { hostname, userInfo } from "node:os";
+import { createInterface } from "node:readline/promises";
+import { SHELL_AGENT } from "./agent-launch.ts";
+import { detectAddresses } from "./bind-addresses.ts";
+import {
+  type CliArgs,
+  ConfigError,
+  formatConfig,
+  loadEnvFile,
+  parseCliArgs,
+  type ResolvedConfig,
+  resolveConfig,
+} from "./config.ts";
+import { describeHostKeys, ROTATION_GRACE_MS, rotateHostKeys } from "./host-keys.ts";
+import {
+  followLog,
+  formatInstanceList,
+  formatInstanceStatus,
+  listInstances,
+  readState,
+  requestKick,
+} from "./instances.ts";
+import { describeClient, formatWho } from "./presence.ts";
 import { startServices } from "./process-manager.ts";
-import { findBinary, getLocalIp, getTailscaleIp, isProcessAlive, readPid, SSH_PORT } from "./utils.ts";
+import { qrToTerminal } from "./qr.ts";
+import {
+  generateTotpSecret,
+  loadTotpSecret,
+  otpauthUri,
+  removeTotpSecret,
+  saveTotpSecret,
+  TOTP_SECRET_PATH,
+  verifyTotp,
+} from "./totp.ts";
+import { ensureCacheDir, findBinary, isProcessAlive } from "./utils.ts";
 
 const args = process.argv.slice(2);
 
-if (args.includes("--version") || args.includes("-v")) {
+// How long `stop` waits for the instance to finish its shutdown
+const STOP_TIMEOUT_MS = 10000;
+
+// How long `kick` waits for the client to drop out of the state file
+const KICK_TIMEOUT_MS = 5000;
+
+const MANAGEMENT_COMMANDS = ["list", "status", "stop", "logs", "who", "kick"];
+
+loadEnvFile();
+
+function exitWithConfigError(err: unknown): never {
+  if (!(err instanceof ConfigError)) throw err;
+  console.error(`ERROR: ${err.message}`);
+  console.error("Run superintent-remote --help for usage.");
+  process.exit(1);
+}
+
+let cli: CliArgs;
+try {
+  cli = parseCliArgs(args);
+} catch (err) {
+  exitWithConfigError(err);
+}
+
+if (cli.version) {
   const pkg = await import("../package.json");
   console.log(pkg.version);
   process.exit(0);
 }
 
-if (args.includes("--help") || args.includes("-h")) {
+if (cli.help) {
   console.log("Usage: superintent-remote [options]");
+  console.log("       superintent-remote <command> [--port <n>]");
+  console.log("");
+  console.log("Options can also be set in .superintent/remote.json or ~/.cache/superintent-remote/remote.json.");
+  console.log("Precedence: flags > environment > project file > user file > defaults.");
+  console.log("");
+  console.log("Commands (--port picks the instance when several are running):");
+  console.log("  list                    List running instances");
+  console.log("  status                  Show details of a running instance");
+  console.log("  stop                    Stop a running instance (tmux sessions are kept)");
+  console.log("  logs [-f, --follow]     Print an instance's log, and keep following it with --follow");
+  console.log("  who                     List connected clients with their connection IDs");
+  console.log("  kick <id>               Disconnect a client (IDs from who)");
+  console.log("  config print            Show the effective configuration and where each value comes from");
+  console.log("  totp enroll             Set up a TOTP second factor for full access (prints a QR code)");
+  console.log("  totp remove             Remove the TOTP second factor");
+  console.log("  host-key show           Print the SSH host key fingerprints");
+  console.log("  host-key rotate         Generate new host keys (the previous ones are served for 7 more days)");
   console.log("");
   console.log("Options:");
-  console.log("  --port <n>          SSH port (default: 2222, or SUPERINTENT_REMOTE_PORT)");
-  console.log("  --local             Bind to local network IP (no Tailscale needed)");
-  console.log("  --attach <session>  Attach to an existing tmux session (or SUPERINTENT_REMOTE_ATTACH)");
-  console.log("  --no-auth           Disable password authentication");
-  console.log("  --yolo              Launch Claude with --dangerously-skip-permissions (or SUPERINTENT_REMOTE_YOLO)");
-  console.log("  --no-qr             Disable QR code in startup banner");
-  console.log("  -v, --version       Show version number");
-  console.log("  -h, --help          Show this help");
+  console.log("  --port <n>              SSH port (default: 2222, or SUPERINTENT_REMOTE_PORT)");
+  console.log("  --local                 Bind to local network IP (no Tailscale needed)");
+  console.log("  --bind <addr>           Also listen on this address (repeatable, IPv4 or IPv6)");
+  console.log("  --attach <session>      Attach to an existing tmux session (or SUPERINTENT_REMOTE_ATTACH)");
+  console.log(
+    "  --session <n>=<dir>     Serve another project as session <n> (repeatable, or SUPERINTENT_REMOTE_SESSIONS)",
+  );
+  console.log("  --no-auth               Disable authentication entirely");
+  console.log("  --no-password           Disable password auth, require a key from authorized_keys");
+  console.log("  --tailnet-allow <ids>   Authenticate by Tailscale identity: users, tag:<name> or machines");
+  console.log(
+    "  --yolo                  Launch Claude with --dangerously-skip-permissions (or SUPERINTENT_REMOTE_YOLO)",
+  );
+  console.log('  --agent <command>       Command typed into new panes (default: claude, "shell" for none)');
+  console.log("  --agent-arg <arg>       Extra argument for the agent (repeatable; --agent-arg=--flag for dashes)");
+  console.log("  --agent-env <k>=<v>     Environment variable for the agent's tmux session (repeatable)");
+  console.log(
+    "  --resume                Relaunch Claude with --continue after a restart (or SUPERINTENT_REMOTE_RESUME)",
+  );
+  console.log(
+    "  --resize <policy>       Terminal size with several clients: smallest, latest, pinned (default: smallest)",
+  );
+  console.log("  --driver                Only one client types at a time, see ~? (or SUPERINTENT_REMOTE_DRIVER)");
+  console.log("  --driver-idle <s>       Seconds without input before control lapses (default: 120)");
+  console.log("  --viewer                Add a read-only viewer password (or SUPERINTENT_REMOTE_VIEWER_PASSWORD)");
+  console.log("  --web                   Serve a browser terminal over HTTP/WebSocket (or SUPERINTENT_REMOTE_WEB)");
+  console.log("  --web-port <n>          Browser terminal port (default: SSH port + 1)");
+  console.log("  --web-qr                Encode the browser URL in the QR code instead of ssh://");
+  console.log("  --sftp                  Enable SFTP, jailed to the project directory");
+  console.log("  --sftp-read-only        Enable SFTP without write access (implies --sftp)");
+  console.log(
+    "  --forward <ports>       Allow ssh -L to these localhost ports, e.g. 3000,5173 (or SUPERINTENT_REMOTE_FORWARD)",
+  );
+  console.log(
+    "  --allow <cidrs>         Addresses allowed to connect (default: tailnet, or local subnet with --local)",
+  );
+  console.log("  --deny <cidrs>          Addresses refused before authentication");
+  console.log("  --macro <key>=<text>    Input shortcut typed as ~<key> at line start (repeatable)");
+  console.log("  --record                Record sessions to asciinema .cast files (or SUPERINTENT_REMOTE_RECORD)");
+  console.log("  --record-input          Also record keystrokes (implies --record)");
+  console.log("  --no-qr                 Disable QR code in startup banner");
+  console.log("  --metrics-port <n>      Serve Prometheus /metrics and JSON /health on 127.0.0.1:<n>");
+  console.log("  --max-connections <n>   Concurrent SSH connections (default: 10)");
+  console.log("  --idle-timeout <s>      Close idle SSH connections after <s> seconds (default: 1800)");
+  console.log("  --scrollback <bytes>    History printed by the history command (default: 524288)");
+  console.log("  --max-restarts <n>      Watchdog restarts before giving up (default: 10)");
+  console.log("  --stable-uptime <s>     Healthy seconds that reset the restart backoff (default: 600)");
+  console.log("  -v, --version           Show version number");
+  console.log("  -h, --help              Show this help");
   process.exit(0);
 }
 
-const noAuth = args.includes("--no-auth");
-const noQr = args.includes("--no-qr");
-const local = args.includes("--local");
-const yolo = args.includes("--yolo") || process.env.SUPERINTENT_REMOTE_YOLO === "true";
+const [command, ...commandArgs] = cli.command;
 
-if (local && noAuth) {
+// Management commands talk to running instances through their state files
+if (MANAGEMENT_COMMANDS.includes(command)) {
+  if (command === "kick" && commandArgs.length !== 1) {
+    console.error("Usage: superintent-remote kick <id> [--port <n>]");
+    process.exit(1);
+  }
+  if (command !== "kick" && commandArgs.length > 0) {
+    console.error(`ERROR: Unexpected argument: ${commandArgs.join(" ")}`);
+    process.exit(1);
+  }
+  const instances = listInstances();
+  if (command === "list") {
+    console.log(instances.length > 0 ? formatInstanceList(instances) : "No running instances.");
+    process.exit(0);
+  }
+
+  const target =
+    cli.values.port !== undefined
+      ? instances.find((i) => i.port === cli.values.port)
+      : instances.length === 1
+        ? instances[0]
+        : undefined;
+  if (!target) {
+    if (cli.values.port !== undefined) {
+      console.error(`ERROR: No instance is running on port ${cli.values.port}.`);
+    } else if (instances.length === 0) {
+      console.error("ERROR: No running instances.");
+    } else {
+      console.error(`ERROR: Several instances are running (ports ${instances.map((i) => i.port).join(", ")}).`);
+      console.error(`Usage: superintent-remote ${command} --port <n>`);
+    }
+    process.exit(1);
+  }
+
+  if (command === "status") {
+    console.log(formatInstanceStatus(target));
+  } else if (command === "who") {
+    console.log(formatWho(target.sessions.flatMap((s) => s.presence)));
+  } else if (command === "kick") {
+    const conn = commandArgs[0];
+    const entry = target.sessions.flatMap((s) => s.presence).find((p) => p.conn === conn);
+    if (!entry) {
+      console.error(`ERROR: No client ${conn} on port ${target.port}. Run superintent-remote who to list them.`);
+      process.exit(1);
+    }
+    requestKick(target, conn);
+    const deadline = Date.now() + KICK_TIMEOUT_MS;
+    const connected = () => readState(target.port)?.sessions.some((s) => s.presence.some((p) => p.conn === conn));
+    while (connected() && Date.now() < deadline) {
+      await Bun.sleep(200);
+    }
+    if (connected()) {
+      console.error(`ERROR: Client ${conn} is still connected.`);
+      process.exit(1);
+    }
+    console.log(`Disconnected ${describeClient(entry)} (${conn}) from ${entry.session}.`);
+  } else if (command === "logs") {
+    await followLog(target.logFile, target.pid, cli.follow);
+  } else {
+    process.kill(target.pid, "SIGTERM");
+    const deadline = Date.now() + STOP_TIMEOUT_MS;
+    while (isProcessAlive(target.pid) && Date.now() < deadline) {
+      await Bun.sleep(200);
+    }
+    if (isProcessAlive(target.pid)) {
+      console.error(`ERROR: Instance on port ${target.port} (PID ${target.pid}) did not stop in time.`);
+      process.exit(1);
+    }
+    console.log(`Stopped instance on port ${target.port} (PID ${target.pid}). Tmux sessions were kept.`);
+  }
+  process.exit(0);
+}
+
+// Second factor enrollment — running instances pick up the change on their next start
+if (command === "totp") {
+  const [action, ...rest] = commandArgs;
+  if ((action !== "enroll" && action !== "remove") || rest.length > 0) {
+    console.error(`ERROR: Unknown command: ${cli.command.join(" ")}`);
+    console.error("Usage: superintent-remote totp enroll|remove");
+    process.exit(1);
+  }
+
+  if (action === "remove") {
+    if (!removeTotpSecret()) {
+      console.error("ERROR: TOTP is not enrolled.");
+      process.exit(1);
+    }
+    console.log(`Removed ${TOTP_SECRET_PATH}. Restart running instances to stop asking for codes.`);
+    process.exit(0);
+  }
+
+  if (loadTotpSecret()) {
+    console.error(`ERROR: TOTP is already enrolled (${TOTP_SECRET_PATH}).`);
+    console.error("Run superintent-remote totp remove first to enroll a new device.");
+    process.exit(1);
+  }
+
+  const secret = generateTotpSecret();
+  const qr = await qrToTerminal(otpauthUri(secret, `${userInfo().username}@${hostname()}`));
+  console.log("Scan with an authenticator app");
+  for (const line of qr.trimEnd().split("\n")) {
+    console.log(`  ${line}`);
+  }
+  console.log("");
+  console.log(`Secret     ${secret}`);
+  console.log("");
+
+  // Only save once the app has proven it produces matching codes
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const code = await rl.question("Verification code: ");
+  rl.close();
+  if (!verifyTotp(secret, code)) {
+    console.error("ERROR: Wrong verification code. Nothing was saved.");
+    process.exit(1);
+  }
+  ensureCacheDir();
+  saveTotpSecret(secret);
+  console.log(`Saved to ${TOTP_SECRET_PATH}. Restart running instances to require codes.`);
+  process.exit(0);
+}
+
+// Host key fingerprints, for checking the first connection from a new client
+if (command === "host-key") {
+  const [action, ...rest] = commandArgs;
+  if ((action !== "show" && action !== "rotate") || rest.length > 0) {
+    console.error(`ERROR: Unknown command: ${cli.command.join(" ")}`);
+    console.error("Usage: superintent-remote host-key show|rotate");
+    process.exit(1);
+  }
+
+  if (action === "rotate") {
+    rotateHostKeys();
+    console.log(`Generated new host keys. The previous ones stay in use for ${ROTATION_GRACE_MS / 86_400_000} days.`);
+    console.log("");
+  }
+  const { current, previous } = describeHostKeys();
+  for (const key of current) {
+    const retired = previous.find((p) => p.type === key.type);
+    const from = retired ? ` (new, served from ${new Date(retired.expiresAt).toISOString().slice(0, 10)})` : "";
+    console.log(`${key.fingerprint}  ${key.type}  ${key.path}${from}`);
+  }
+  for (const key of previous) {
+    const until = new Date(key.expiresAt).toISOString().slice(0, 10);
+    console.log(`${key.fingerprint}  ${key.type}  ${key.path} (previous, served until ${until})`);
+  }
+  if (previous.length > 0) {
+    // Known to the client ahead of the switch, the new key is accepted without a warning
+    console.log("");
+    console.log("Add the new keys to each client's known_hosts now, next to the old ones, with the host");
+    console.log("written as in its existing entry (e.g. [100.64.0.1]:2222):");
+    for (const key of current) {
+      if (previous.some((p) => p.type === key.type)) console.log(`  <host> ${key.publicKey}`);
+    }
+  }
+  process.exit(0);
+}
+
+// Merge flags, environment, .superintent/remote.json and the user config file
+let resolved: ResolvedConfig;
+try {
+  resolved = resolveConfig(cli.values);
+} catch (err) {
+  exitWithConfigError(err);
+}
+
+if (command === "config" && commandArgs.length === 1 && commandArgs[0] === "print") {
+  console.log(formatConfig(resolved));
+  process.exit(0);
+}
+if (command) {
+  console.error(`ERROR: Unknown command: ${cli.command.join(" ")}`);
+  console.error("Run superintent-remote --help for usage.");
+  process.exit(1);
+}
+
+const config = resolved.config;
+
+if (config.local && config.noAuth) {
   console.error("ERROR: --local --no-auth is not allowed.");
-  console.error("Password authentication is required when binding to the local network.");
+  console.error("Authentication is required when binding to the local network.");
   process.exitCode = 1;
   process.exit();
 }
-const portFlag = args.indexOf("--port");
-const envPort = process.env.SUPERINTENT_REMOTE_PORT ? parseInt(process.env.SUPERINTENT_REMOTE_PORT, 10) : undefined;
-const rawPort = portFlag !== -1 && args[portFlag + 1] ? parseInt(args[portFlag + 1], 10) : (envPort ?? SSH_PORT);
 
-const attachFlag = args.indexOf("--attach");
-const envAttach = process.env.SUPERINTENT_REMOTE_ATTACH || undefined;
-const attachSession = attachFlag !== -1 ? args[attachFlag + 1] : envAttach;
-if (attachFlag !== -1 && !args[attachFlag + 1]) {
-  console.error("ERROR: --attach requires a session name.");
-  console.error("Usage: superintent-remote --attach <session-name>");
+if (config.tailnetAllow.length > 0 && (config.local || config.noAuth)) {
+  console.error(`ERROR: --tailnet-allow cannot be combined with ${config.local ? "--local" : "--no-auth"}.`);
+  console.error("Identity auth needs Tailscale mode and replaces the other credentials.");
   process.exit(1);
 }
 
-if (Number.isNaN(rawPort) || rawPort < 1 || rawPort > 65535) {
-  console.error(`ERROR: Invalid port number: ${args[portFlag + 1]}`);
+const port = config.port;
+const webPort = config.webPort ?? port + 1;
+if (webPort === port || webPort > 65535) {
+  console.error(`ERROR: Invalid web port: ${webPort}`);
   process.exit(1);
 }
-const port = rawPort;
 
-// Check for already-running instance (write our PID atomically, then verify)
-const existingPid = await readPid(`wrapper-${port}`);
-if (existingPid && isProcessAlive(existingPid) && existingPid !== process.pid) {
-  console.error("ERROR: Superintent Remote is already running on port %d (PID: %d).", port, existingPid);
-  console.error("Kill it with Ctrl+C first.");
+if (config.metricsPort !== null && (config.metricsPort === port || config.metricsPort === webPort)) {
+  console.error(`ERROR: --metrics-port ${config.metricsPort} is already used by the SSH or web server.`);
+  process.exit(1);
+}
+
+if (config.webQr && !config.web) {
+  console.error("ERROR: --web-qr requires --web.");
+  process.exit(1);
+}
+
+// Check for already-running instance (stale state files are cleaned up on read)
+const existing = readState(port);
+if (existing && existing.pid !== process.pid) {
+  console.error("ERROR: Superintent Remote is already running on port %d (PID: %d).", port, existing.pid);
+  console.error(`Stop it with: superintent-remote stop --port ${port}`);
   process.exit(1);
 }
 
@@ -70,24 +364,56 @@ if (!findBinary("tmux")) {
   process.exit(1);
 }
 
-let ip: string;
-if (local) {
-  const localIp = getLocalIp();
-  if (!localIp) {
+// Every Tailscale (or, with --local, LAN) address plus explicit --bind ones; re-checked while running
+const addresses = await detectAddresses({ local: config.local, bind: config.bind });
+if (addresses.length === 0) {
+  if (config.local) {
     console.error("ERROR: No local network interface found.");
     console.error("Make sure you are connected to a WiFi or Ethernet network.");
-    process.exit(1);
-  }
-  ip = localIp;
-} else {
-  const tailscaleIp = getTailscaleIp();
-  if (!tailscaleIp) {
+  } else {
     console.error("ERROR: Tailscale is not available or not running.");
     console.error("Install Tailscale: https://tailscale.com/download");
     console.error("Or use --local to bind to your local network instead.");
-    process.exit(1);
   }
-  ip = tailscaleIp;
+  process.exit(1);
 }
 
-await startServices({ ip, port, noAuth, attachSession, noQr, local, yolo });
+await startServices({
+  addresses,
+  bind: config.bind,
+  port,
+  noAuth: config.noAuth,
+  noPassword: config.noPassword,
+  tailnetAllow: config.tailnetAllow,
+  viewer: config.viewer || !!process.env.SUPERINTENT_REMOTE_VIEWER_PASSWORD,
+  attachSession: config.attach ?? undefined,
+  sessions: config.sessions,
+  web: config.web,
+  webPort,
+  qrWeb: config.webQr,
+  resizePolicy: config.resize,
+  driverIdleMs: config.driver ? config.driverIdleSeconds * 1000 : null,
+  sftp: config.sftp || config.sftpReadOnly,
+  sftpReadOnly: config.sftpReadOnly,
+  forwardPorts: config.forward,
+  allow: config.allow,
+  deny: config.deny,
+  record: config.record || config.recordInput,
+  recordInput: config.recordInput,
+  noQr: config.noQr,
+  local: config.local,
+  yolo: config.yolo,
+  maxConnections: config.maxConnections,
+  idleTimeoutMs: config.idleTimeoutSeconds * 1000,
+  maxScrollback: config.scrollbackBytes,
+  maxRestarts: config.maxRestarts,
+  stableUptimeMs: config.stableUptimeSeconds * 1000,
+  macros: config.macros,
+  metricsPort: config.metricsPort,
+  agent: {
+    command: config.agent === SHELL_AGENT ? null : config.agent,
+    args: config.agentArgs,
+    env: config.agentEnv,
+    resume: config.resume,
+  },
+});
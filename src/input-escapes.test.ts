@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { createEscapeState, expandKeys, type Macro, parseMacro, processInput } from "./input-escapes.ts";
+
+const macros: Macro[] = [{ key: "t", text: "run the tests{enter}" }];
+
+function run(chunks: string[]) {
+  const state = createEscapeState();
+  return chunks.map((chunk) => processInput(state, chunk, macros));
+}
+
+describe("processInput", () => {
+  test("sends built-in keys for escapes at line start", () => {
+    expect(run(["~e"])[0].input).toBe("\x1b");
+    expect(run(["~c"])[0].input).toBe("\x03");
+    expect(run(["~m"])[0].input).toBe("\x1b[Z");
+    expect(run(["~e~e"])[0].input).toBe("\x1b\x1b");
+  });
+
+  test("answers help, status and who locally", () => {
+    expect(run(["~?~s~w"])[0]).toEqual({ input: "", local: ["help", "status", "who"] });
+  });
+
+  test("passes driver mode commands on", () => {
+    expect(run(["~r~g~o~l"])[0]).toEqual({ input: "", local: ["request", "grant", "take", "release"] });
+  });
+
+  test("expands macros", () => {
+    expect(run(["~t"])[0].input).toBe("run the tests\r");
+  });
+
+  test("only treats ~ as an escape at the start of a line", () => {
+    expect(run(["a~e"])[0].input).toBe("a~e");
+    expect(run(["a\r~e"])[0].input).toBe("a\r\x1b");
+  });
+
+  test("types ~~ and unknown escapes through", () => {
+    expect(run(["~~e"])[0].input).toBe("~e");
+    expect(run(["~x~e"])[0].input).toBe("~x~e");
+  });
+
+  test("holds a ~ until the next chunk decides it", () => {
+    const [first, second] = run(["hi\r~", "c"]);
+    expect(first.input).toBe("hi\r");
+    expect(second.input).toBe("\x03");
+  });
+
+  test("keeps escape state per connection", () => {
+    const a = createEscapeState();
+    const b = createEscapeState();
+    processInput(a, "~", macros);
+    expect(processInput(b, "c", macros).input).toBe("c");
+    expect(processInput(a, "c", macros).input).toBe("\x03");
+  });
+});
+
+describe("expandKeys", () => {
+  test("expands key names and ctrl combinations", () => {
+    expect(expandKeys("{ESC}{up}{c-d}{s-tab}x{")).toBe("\x1b\x1b[A\x04\x1b[Zx{");
+  });
+
+  test("rejects unknown key names", () => {
+    expect(() => expandKeys("{hyper}")).toThrow("Unknown key {hyper}");
+  });
+});
+
+describe("parseMacro", () => {
+  test("splits at the first =", () => {
+    expect(parseMacro("q=a=b")).toEqual({ key: "q", text: "a=b" });
+  });
+
+  test("rejects malformed and reserved keys", () => {
+    expect(() => parseMacro("ab=x")).toThrow("Invalid macro");
+    expect(() => parseMacro("q=")).toThrow("Invalid macro");
+    expect(() => parseMacro("?=x")).toThrow("reserved");
+    expect(() => parseMacro("w=x")).toThrow("reserved");
+    expect(() => parseMacro("o=x")).toThrow("reserved");
+    expect(() => parseMacro("q={bogus}")).toThrow("Unknown key {bogus} in macro q");
+  });
+});
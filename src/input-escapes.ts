@@ -0,0 +1,195 @@
+import { formatHealth } from "./health.ts";
+import { describeClient, formatWho } from "./presence.ts";
+import {
+  type ControlCommand,
+  controlInput,
+  driverPresence,
+  listPresence,
+  type TerminalClient,
+  type TerminalSession,
+} from "./terminal.ts";
+import { formatDuration } from "./utils.ts";
+
+// Like OpenSSH: `~` is only an escape at the start of a line, `~~` types a literal `~`
+const ESCAPE_CHAR = "~";
+
+export interface Macro {
+  key: string; // the character after `~`
+  text: string; // key notation, e.g. "/clear{enter}"
+}
+
+// Built-ins that send keys; `?` (help), `s` (status) and `w` (who) are answered locally
+// and the driver mode ones act on the input lock
+const KEY_COMMANDS: Record<string, { keys: string; description: string }> = {
+  e: { keys: "\x1b", description: "Esc" },
+  c: { keys: "\x03", description: "Ctrl+C" },
+  m: { keys: "\x1b[Z", description: "Shift+Tab (cycle mode)" },
+};
+const CONTROL_COMMANDS: Record<string, { command: ControlCommand; description: string }> = {
+  r: { command: "request", description: "Ask for control (driver mode)" },
+  g: { command: "grant", description: "Give control to the client that asked" },
+  o: { command: "take", description: "Take control without asking" },
+  l: { command: "release", description: "Release control" },
+};
+const RESERVED_KEYS = new Set([
+  ...Object.keys(KEY_COMMANDS),
+  ...Object.keys(CONTROL_COMMANDS),
+  "?",
+  "s",
+  "w",
+  ESCAPE_CHAR,
+]);
+
+// Names usable as {name} in macro text
+const KEY_NAMES: Record<string, string> = {
+  enter: "\r",
+  tab: "\t",
+  "s-tab": "\x1b[Z",
+  esc: "\x1b",
+  space: " ",
+  backspace: "\x7f",
+  up: "\x1b[A",
+  down: "\x1b[B",
+  right: "\x1b[C",
+  left: "\x1b[D",
+};
+
+/** Expands {enter}, {esc}, {c-x} and the other key names in macro text. */
+export function expandKeys(text: string): string {
+  return text.replace(/\{([a-zA-Z-]+)\}/g, (match, raw: string) => {
+    const name = raw.toLowerCase();
+    if (name in KEY_NAMES) return KEY_NAMES[name];
+    const ctrl = name.match(/^c-([a-z])$/);
+    if (ctrl) return String.fromCharCode(ctrl[1].charCodeAt(0) - 96);
+    throw new Error(`Unknown key ${match}`);
+  });
+}
+
+/** Parses "<key>=<text>", as given to --macro or in the config file. */
+export function parseMacro(entry: string): Macro {
+  const eqIndex = entry.indexOf("=");
+  const key = eqIndex === -1 ? "" : entry.slice(0, eqIndex);
+  const text = entry.slice(eqIndex + 1);
+  if ([...key].length !== 1 || key.trim() === "" || !text) {
+    throw new Error(`Invalid macro: ${entry} (expected <key>=<text>, with a single-character key)`);
+  }
+  if (RESERVED_KEYS.has(key)) throw new Error(`Macro key ${key} is reserved for ${ESCAPE_CHAR}${key}`);
+  try {
+    expandKeys(text);
+  } catch (err) {
+    throw new Error(`${err instanceof Error ? err.message : err} in macro ${key}`);
+  }
+  return { key, text };
+}
+
+/** One per connection, so a half-typed escape never leaks into another client's input. */
+export interface EscapeState {
+  atLineStart: boolean;
+  pending: boolean; // `~` seen at line start, waiting for the next character
+}
+
+export function createEscapeState(): EscapeState {
+  return { atLineStart: true, pending: false };
+}
+
+export type LocalCommand = "help" | "status" | "who" | ControlCommand;
+
+/**
+ * Splits client input into what goes to the terminal and commands answered locally.
+ * After an escape command the line start is kept, so `~e~e` sends Esc twice.
+ */
+export function processInput(
+  state: EscapeState,
+  data: string,
+  macros: Macro[],
+): { input: string; local: LocalCommand[] } {
+  let input = "";
+  const local: LocalCommand[] = [];
+  for (const char of data) {
+    if (state.pending) {
+      state.pending = false;
+      const macro = macros.find((m) => m.key === char);
+      if (char === "?") local.push("help");
+      else if (char === "s") local.push("status");
+      else if (char === "w") local.push("who");
+      else if (char in CONTROL_COMMANDS) local.push(CONTROL_COMMANDS[char].command);
+      else if (char in KEY_COMMANDS) input += KEY_COMMANDS[char].keys;
+      else if (macro) input += expandKeys(macro.text);
+      else {
+        // `~~` and unknown escapes are typed through, like OpenSSH
+        input += char === ESCAPE_CHAR ? char : ESCAPE_CHAR + char;
+        state.atLineStart = char === "\r" || char === "\n";
+      }
+      continue;
+    }
+    if (char === ESCAPE_CHAR && state.atLineStart) {
+      state.pending = true;
+      continue;
+    }
+    input += char;
+    state.atLineStart = char === "\r" || char === "\n";
+  }
+  return { input, local };
+}
+
+/** Shown for `~?`. Lines end with CRLF because it is written straight to the client. */
+export function formatEscapeHelp(macros: Macro[]): string {
+  const lines = [
+    "Escape commands (type at the start of a line):",
+    ...Object.entries(KEY_COMMANDS).map(([key, { description }]) => `  ${ESCAPE_CHAR}${key}  ${description}`),
+    `  ${ESCAPE_CHAR}s  Show session status`,
+    `  ${ESCAPE_CHAR}w  Show who is connected`,
+    ...Object.entries(CONTROL_COMMANDS).map(([key, { description }]) => `  ${ESCAPE_CHAR}${key}  ${description}`),
+    `  ${ESCAPE_CHAR}?  Show this help`,
+    `  ${ESCAPE_CHAR}${ESCAPE_CHAR}  Type a ${ESCAPE_CHAR}`,
+  ];
+  if (macros.length > 0) {
+    lines.push("Macros:", ...macros.map((m) => `  ${ESCAPE_CHAR}${m.key}  ${m.text}`));
+  }
+  return `\r\n\x1b[90m${lines.join("\r\n")}\x1b[0m\r\n`;
+}
+
+/** Shown for `~s`. */
+export function formatStatusLine(session: TerminalSession, now: number = Date.now()): string {
+  const parts = [
+    session.name,
+    session.yolo ? "YOLO" : "Normal",
+    session.proc ? `${session.cols}x${session.rows}` : "not running",
+    `${session.clients.size} client${session.clients.size === 1 ? "" : "s"}`,
+    `up ${formatDuration(now - session.createdAt)}`,
+  ];
+  if (session.inputLock) {
+    const driver = driverPresence(session);
+    parts.push(driver ? `driver: ${describeClient(driver)}` : "no driver");
+  }
+  if (session.health !== "healthy") parts.push(formatHealth(session.health));
+  if (session.restarts > 0) parts.push(`${session.restarts} restart${session.restarts === 1 ? "" : "s"}`);
+  return `\r\n\x1b[90m[${parts.join(" · ")}]\x1b[0m\r\n`;
+}
+
+/** Shown for `~w`; the asking connection is marked with a `*`. */
+export function formatWhoList(session: TerminalSession, conn: string, now: number = Date.now()): string {
+  const table = formatWho(listPresence(session), now, conn);
+  return `\r\n\x1b[90m${table.split("\n").join("\r\n")}\x1b[0m\r\n`;
+}
+
+/** Runs a command answered locally and returns what the asking client sees, if anything. */
+export function answerLocal(
+  command: LocalCommand,
+  session: TerminalSession,
+  client: TerminalClient,
+  macros: Macro[],
+): string | null {
+  switch (command) {
+    case "help":
+      return formatEscapeHelp(macros);
+    case "status":
+      return formatStatusLine(session);
+    case "who":
+      return formatWhoList(session, session.clients.get(client)?.presence.conn ?? "");
+    default: {
+      const reply = controlInput(session, client, command);
+      return reply ? `\r\n\x1b[90m[${reply}]\x1b[0m\r\n` : null;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+  claimInput,
+  createInputLock,
+  dropClient,
+  formatDriverChange,
+  grantControl,
+  lockHolder,
+  releaseControl,
+  requestControl,
+  takeControl,
+} from "./input-lock.ts";
+
+const IDLE_MS = 60_000;
+
+describe("claimInput", () => {
+  test("the first client to type takes the lock and others are blocked", () => {
+    const lock = createInputLock(IDLE_MS);
+    expect(claimInput(lock, "laptop", 0)).toEqual({
+      allowed: true,
+      change: { holder: "laptop", previous: null, reason: "input" },
+      warn: false,
+    });
+    expect(claimInput(lock, "laptop", 1000).allowed).toBe(true);
+    expect(claimInput(lock, "phone", 2000)).toEqual({ allowed: false, change: null, warn: true });
+    expect(claimInput(lock, "phone", 3000)).toEqual({ allowed: false, change: null, warn: false });
+  });
+
+  test("the lock lapses after the holder is idle", () => {
+    const lock = createInputLock(IDLE_MS);
+    claimInput(lock, "laptop", 0);
+    expect(lockHolder(lock, IDLE_MS - 1)).toBe("laptop");
+    expect(lockHolder(lock, IDLE_MS)).toBeNull();
+    expect(claimInput(lock, "phone", IDLE_MS).change).toEqual({ holder: "phone", previous: "laptop", reason: "idle" });
+  });
+});
+
+describe("control commands", () => {
+  test("request and grant hand control over", () => {
+    const lock = createInputLock(IDLE_MS);
+    claimInput(lock, "laptop", 0);
+    expect(requestControl(lock, "phone", 1000)).toBeNull();
+    expect(lock.requester).toBe("phone");
+    expect(grantControl(lock, "phone", 2000)).toBeNull(); // only the holder grants
+    expect(grantControl(lock, "laptop", 2000)).toEqual({ holder: "phone", previous: "laptop", reason: "grant" });
+    expect(lock.requester).toBeNull();
+  });
+
+  test("a request for a free lock takes it at once", () => {
+    const lock = createInputLock(IDLE_MS);
+    expect(requestControl(lock, "phone", 0)).toEqual({ holder: "phone", previous: null, reason: "input" });
+  });
+
+  test("take over and release", () => {
+    const lock = createInputLock(IDLE_MS);
+    claimInput(lock, "laptop", 0);
+    expect(takeControl(lock, "phone", 1000)).toEqual({ holder: "phone", previous: "laptop", reason: "takeover" });
+    expect(releaseControl(lock, "laptop", 2000)).toBeNull();
+    expect(releaseControl(lock, "phone", 2000)).toEqual({ holder: null, previous: "phone", reason: "release" });
+    expect(claimInput(lock, "laptop", 3000).allowed).toBe(true);
+  });
+
+  test("a disconnect frees the lock and forgets a pending request", () => {
+    const lock = createInputLock(IDLE_MS);
+    claimInput(lock, "laptop", 0);
+    requestControl(lock, "phone", 1000);
+    expect(dropClient(lock, "phone", 2000)).toBeNull();
+    expect(lock.requester).toBeNull();
+    expect(dropClient(lock, "laptop", 3000)).toEqual({ holder: null, previous: "laptop", reason: "disconnect" });
+  });
+});
+
+describe("formatDriverChange", () => {
+  const describe = (conn: string) => `${conn}-name`;
+
+  test("names both sides of the change", () => {
+    expect(formatDriverChange({ holder: "a", previous: null, reason: "input" }, describe)).toBe("a-name has control");
+    expect(formatDriverChange({ holder: "a", previous: "b", reason: "takeover" }, describe)).toBe(
+      "a-name took control from b-name",
+    );
+    expect(formatDriverChange({ holder: "a", previous: "b", reason: "grant" }, describe)).toBe(
+      "b-name gave control to a-name",
+    );
+    expect(formatDriverChange({ holder: null, previous: "b", reason: "disconnect" }, describe)).toBe(
+      "b-name left, nobody has control",
+    );
+  });
+});
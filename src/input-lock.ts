@@ -0,0 +1,113 @@
+/**
+ * Driver mode: one connection holds the input lock and the others watch until control is
+ * requested and granted, taken over, released, or lapses. Clients are identified by their
+ * connection ID; the functions below only track who holds the lock.
+ */
+export interface InputLock {
+  holder: string | null; // connection that may type
+  requester: string | null; // waiting for the holder to grant control
+  activeAt: number; // the holder's last input
+  idleMs: number; // the lock lapses after this long without input
+  warned: string[]; // blocked clients already told who has control
+}
+
+// Why the holder changed, as logged and announced
+export type DriverReason = "input" | "idle" | "grant" | "takeover" | "release" | "disconnect";
+
+export interface DriverChange {
+  holder: string | null;
+  previous: string | null;
+  reason: DriverReason;
+}
+
+export const DEFAULT_DRIVER_IDLE_MS = 2 * 60 * 1000;
+
+export function createInputLock(idleMs: number = DEFAULT_DRIVER_IDLE_MS): InputLock {
+  return { holder: null, requester: null, activeAt: 0, idleMs, warned: [] };
+}
+
+function setHolder(lock: InputLock, holder: string | null, now: number, reason: DriverReason): DriverChange {
+  const previous = lock.holder;
+  lock.holder = holder;
+  lock.requester = null;
+  lock.activeAt = now;
+  lock.warned = [];
+  return { holder, previous, reason };
+}
+
+/** The connection that may type, or null when nobody holds the lock or it lapsed. */
+export function lockHolder(lock: InputLock, now: number = Date.now()): string | null {
+  return lock.holder !== null && now - lock.activeAt < lock.idleMs ? lock.holder : null;
+}
+
+/**
+ * Checks a keystroke. With nobody in control the typing client takes the lock; otherwise
+ * only the holder may type. `warn` is set the first time a client is blocked.
+ */
+export function claimInput(
+  lock: InputLock,
+  conn: string,
+  now: number,
+): { allowed: boolean; change: DriverChange | null; warn: boolean } {
+  if (lock.holder === conn) {
+    lock.activeAt = now;
+    return { allowed: true, change: null, warn: false };
+  }
+  if (lockHolder(lock, now) === null) {
+    return { allowed: true, change: setHolder(lock, conn, now, lock.holder ? "idle" : "input"), warn: false };
+  }
+  const warn = !lock.warned.includes(conn);
+  if (warn) lock.warned.push(conn);
+  return { allowed: false, change: null, warn };
+}
+
+/** `~r`: takes a free lock at once, else asks the holder. Null when nothing changed hands. */
+export function requestControl(lock: InputLock, conn: string, now: number): DriverChange | null {
+  if (lock.holder === conn) return null;
+  if (lockHolder(lock, now) === null) return setHolder(lock, conn, now, lock.holder ? "idle" : "input");
+  lock.requester = conn;
+  return null;
+}
+
+/** `~g`: the holder hands control to the pending requester. */
+export function grantControl(lock: InputLock, conn: string, now: number): DriverChange | null {
+  if (lock.holder !== conn || lock.requester === null) return null;
+  return setHolder(lock, lock.requester, now, "grant");
+}
+
+/** `~o`: takes control without asking. */
+export function takeControl(lock: InputLock, conn: string, now: number): DriverChange | null {
+  return lock.holder === conn ? null : setHolder(lock, conn, now, "takeover");
+}
+
+/** `~l`: the holder gives up control; the next client to type gets it. */
+export function releaseControl(lock: InputLock, conn: string, now: number): DriverChange | null {
+  return lock.holder === conn ? setHolder(lock, null, now, "release") : null;
+}
+
+/** Forgets a client that disconnected, freeing the lock if it held it. */
+export function dropClient(lock: InputLock, conn: string, now: number): DriverChange | null {
+  lock.warned = lock.warned.filter((c) => c !== conn);
+  if (lock.requester === conn) lock.requester = null;
+  return lock.holder === conn ? setHolder(lock, null, now, "disconnect") : null;
+}
+
+/** Announcement for a change, e.g. "alice on phone took control from 100.64.0.9". */
+export function formatDriverChange(change: DriverChange, describe: (conn: string) => string): string {
+  const holder = change.holder ? describe(change.holder) : "";
+  const previous = change.previous ? describe(change.previous) : "";
+  switch (change.reason) {
+    case "input":
+      return `${holder} has control`;
+    case "idle":
+      return `${holder} has control (${previous} was idle)`;
+    case "grant":
+      return `${previous} gave control to ${holder}`;
+    case "takeover":
+      return previous ? `${holder} took control from ${previous}` : `${holder} has control`;
+    case "release":
+      return `${previous} released control`;
+    case "disconnect":
+      return `${previous} left, nobody has control`;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { formatInstanceList, formatInstanceStatus, type InstanceState } from "./instances.ts";
+
+const state: InstanceState = {
+  pid: 4242,
+  port: 2222,
+  addresses: ["100.64.0.1", "fd7a:115c:a1e0::1"],
+  cwd: "/home/me/app",
+  version: "1.0.0",
+  startedAt: 0,
+  yolo: false,
+  local: false,
+  webUrl: null,
+  logFile: "/tmp/wrapper-2222.log",
+  sessions: [
+    {
+      name: "app",
+      cwd: "/home/me/app",
+      tmuxSession: "app-abc123-remote",
+      attached: false,
+      clients: 2,
+      readOnlyClients: 1,
+      running: true,
+      health: "healthy",
+      presence: [],
+    },
+  ],
+};
+
+describe("formatInstanceList", () => {
+  test("prints a header and one aligned row per instance", () => {
+    const lines = formatInstanceList([state], 65_000).split("\n");
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toStartWith("PORT  PID   PROJECT");
+    expect(lines[1]).toStartWith("2222  4242  /home/me/app");
+    expect(lines[1]).toContain("Normal, tailscale");
+    expect(lines[1]).toContain("2 (1 read-only)");
+    expect(lines[1]).toEndWith("1m 05s");
+  });
+});
+
+describe("formatInstanceStatus", () => {
+  test("includes per-session details", () => {
+    const output = formatInstanceStatus(state, 12_000);
+    expect(output).toContain("Uptime     12s");
+    expect(output).toContain("Address    100.64.0.1, fd7a:115c:a1e0::1");
+    expect(output).toContain("Tmux       app-abc123-remote");
+    expect(output).toContain("Terminal   running");
+    expect(output).toContain("Health     healthy");
+  });
+});
@@ -0,0 +1,191 @@
+import { appendFileSync, existsSync, readdirSync, readFileSync, renameSync, unlinkSync } from "node:fs";
+import { rename } from "node:fs/promises";
+import { join } from "node:path";
+import { formatHealth, type HealthState } from "./health.ts";
+import type { PresenceEntry } from "./presence.ts";
+import { formatDuration, isProcessAlive, LOG_DIR } from "./utils.ts";
+
+export interface InstanceSession {
+  name: string;
+  cwd: string;
+  tmuxSession: string;
+  attached: boolean;
+  clients: number;
+  readOnlyClients: number;
+  running: boolean; // terminal process is up (false while the watchdog restarts it)
+  health: HealthState;
+  presence: PresenceEntry[]; // attached clients, for `superintent-remote who`
+}
+
+/** Written to LOG_DIR/wrapper-<port>.json by a running instance and kept up to date. */
+export interface InstanceState {
+  pid: number;
+  port: number;
+  addresses: string[]; // listening addresses, the one shown in Connect lines first
+  cwd: string;
+  version: string;
+  startedAt: number;
+  yolo: boolean;
+  local: boolean;
+  webUrl: string | null;
+  logFile: string;
+  sessions: InstanceSession[];
+}
+
+const STATE_FILE_PATTERN = /^wrapper-(\d+)\.json$/;
+
+export function statePath(port: number): string {
+  return join(LOG_DIR, `wrapper-${port}.json`);
+}
+
+export function instanceLogPath(port: number): string {
+  return join(LOG_DIR, `wrapper-${port}.log`);
+}
+
+// Connection IDs to disconnect, one per line; the instance reads them on SIGUSR2
+function kickPath(port: number): string {
+  return join(LOG_DIR, `wrapper-${port}.kick`);
+}
+
+/** Asks a running instance to disconnect a client (`superintent-remote kick`). */
+export function requestKick(state: InstanceState, conn: string): void {
+  appendFileSync(kickPath(state.port), `${conn}\n`);
+  process.kill(state.pid, "SIGUSR2");
+}
+
+/** Returns and clears the pending kick requests for this instance. */
+export function takeKickRequests(port: number): string[] {
+  const path = kickPath(port);
+  const taken = `${path}.${process.pid}`;
+  try {
+    renameSync(path, taken); // requests appended from now on land in a new file
+  } catch {
+    return [];
+  }
+  const conns = readFileSync(taken, "utf-8").split("\n").filter(Boolean);
+  unlinkSync(taken);
+  return conns;
+}
+
+/** Replaces the state file in one step, so `list`, `status` and `stop` never read half of it. */
+export async function writeState(state: InstanceState): Promise<void> {
+  const path = statePath(state.port);
+  const temp = `${path}.${process.pid}.tmp`;
+  await Bun.write(temp, `${JSON.stringify(state, null, 2)}\n`);
+  await rename(temp, path);
+}
+
+export function removeState(port: number): void {
+  try {
+    unlinkSync(statePath(port));
+  } catch {
+    // Already gone
+  }
+}
+
+/** Reads the state for a port. Stale entries (process no longer alive) are deleted. */
+export function readState(port: number): InstanceState | null {
+  const path = statePath(port);
+  if (!existsSync(path)) return null;
+
+  let state: InstanceState;
+  try {
+    state = JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    return null; // Partially written — the owner rewrites it shortly
+  }
+  if (!isProcessAlive(state.pid)) {
+    removeState(port);
+    return null;
+  }
+  return state;
+}
+
+export function listInstances(): InstanceState[] {
+  if (!existsSync(LOG_DIR)) return [];
+  const instances: InstanceState[] = [];
+  for (const file of readdirSync(LOG_DIR)) {
+    const match = file.match(STATE_FILE_PATTERN);
+    if (!match) continue;
+    const state = readState(parseInt(match[1], 10));
+    if (state) instances.push(state);
+  }
+  return instances.sort((a, b) => a.port - b.port);
+}
+
+function formatMode(state: InstanceState): string {
+  return `${state.yolo ? "YOLO" : "Normal"}, ${state.local ? "local" : "tailscale"}`;
+}
+
+function formatClients(sessions: InstanceSession[]): string {
+  const total = sessions.reduce((sum, s) => sum + s.clients, 0);
+  const readOnly = sessions.reduce((sum, s) => sum + s.readOnlyClients, 0);
+  return `${total}${readOnly > 0 ? ` (${readOnly} read-only)` : ""}`;
+}
+
+/** One row per instance, for `superintent-remote list`. */
+export function formatInstanceList(instances: InstanceState[], now: number = Date.now()): string {
+  const rows = [
+    ["PORT", "PID", "PROJECT", "TMUX", "MODE", "CLIENTS", "UPTIME"],
+    ...instances.map((s) => [
+      String(s.port),
+      String(s.pid),
+      s.cwd,
+      s.sessions.map((session) => session.tmuxSession).join(", "),
+      formatMode(s),
+      formatClients(s.sessions),
+      formatDuration(now - s.startedAt),
+    ]),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows
+    .map((r) => r.map((cell, i) => (i === r.length - 1 ? cell : cell.padEnd(widths[i] + 2))).join(""))
+    .join("\n");
+}
+
+/** Detailed view of one instance, for `superintent-remote status`. */
+export function formatInstanceStatus(state: InstanceState, now: number = Date.now()): string {
+  const lines = [
+    `Port       ${state.port}`,
+    `PID        ${state.pid}`,
+    `Version    ${state.version}`,
+    `Address    ${state.addresses.join(", ") || "none (waiting for the network)"}`,
+    `Mode       ${formatMode(state)}`,
+    `Uptime     ${formatDuration(now - state.startedAt)}`,
+    `Clients    ${formatClients(state.sessions)}`,
+  ];
+  if (state.webUrl) lines.push(`Web        ${state.webUrl}`);
+  lines.push(`Log        ${state.logFile}`);
+  for (const session of state.sessions) {
+    lines.push(
+      "",
+      `Session    ${session.name}`,
+      `Project    ${session.cwd}`,
+      `Tmux       ${session.tmuxSession}${session.attached ? " (attached)" : ""}`,
+      `Terminal   ${session.running ? "running" : "not running"}`,
+      `Health     ${formatHealth(session.health)}`,
+      `Clients    ${formatClients([session])}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Prints the log file, then keeps printing appended lines until the instance exits. */
+export async function followLog(path: string, pid: number, follow: boolean): Promise<void> {
+  let offset = 0;
+  const printNew = async () => {
+    const file = Bun.file(path);
+    const size = file.size;
+    if (size < offset) offset = 0; // Truncated by a restart
+    if (size > offset) {
+      process.stdout.write(await file.slice(offset, size).text());
+      offset = size;
+    }
+  };
+
+  await printNew();
+  while (follow && isProcessAlive(pid)) {
+    await Bun.sleep(500);
+    await printNew();
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import {
+  countEvent,
+  createCounters,
+  formatPrometheus,
+  healthSummary,
+  type MetricsSnapshot,
+  type SessionMetrics,
+} from "./metrics.ts";
+
+const session: SessionMetrics = {
+  name: "app",
+  health: "healthy",
+  clients: 2,
+  bytesIn: 120,
+  bytesOut: 4096,
+  scrollbackBytes: null,
+  resizes: 3,
+  restarts: 1,
+  lastExitCode: 0,
+  uptimeMs: 90_500,
+};
+
+function snapshot(sessions: SessionMetrics[] = [session]): MetricsSnapshot {
+  const counters = createCounters();
+  countEvent(
+    { type: "connection.open", conn: "a", transport: "ssh", ip: "100.64.0.7", client: null, active: 1 },
+    counters,
+  );
+  countEvent(
+    {
+      type: "auth.fail",
+      conn: "a",
+      transport: "ssh",
+      ip: "100.64.0.7",
+      method: "password",
+      user: "app",
+      lockoutMs: null,
+      global: false,
+    },
+    counters,
+  );
+  countEvent({ type: "connection.idle", conn: "a", ip: "100.64.0.7", timeoutMs: 1000 }, counters);
+  countEvent(
+    {
+      type: "connection.close",
+      conn: "a",
+      transport: "ssh",
+      ip: "100.64.0.7",
+      durationMs: 1000,
+      bytesIn: 500,
+      bytesOut: 9000,
+      active: 0,
+    },
+    counters,
+  );
+  countEvent({ type: "connection.reject", transport: "web", ip: "203.0.113.9", reason: "not in allow list" }, counters);
+  return { version: "1.0.0", uptimeMs: 61_000, counters, sessions };
+}
+
+describe("countEvent", () => {
+  test("derives connection and auth counters from audit events", () => {
+    const { counters } = snapshot();
+    expect(counters.connectionsTotal).toEqual({ ssh: 1, web: 0 });
+    expect(counters.connectionsActive).toEqual({ ssh: 0, web: 0 });
+    expect(counters.connectionsRejected).toEqual({ ssh: 0, web: 1 });
+    expect(counters.bytesOut.ssh).toBe(9000);
+    expect(counters.auth.ssh).toEqual({ accept: 0, fail: 1, locked: 0 });
+    expect(counters.idleTimeouts).toBe(1);
+  });
+});
+
+describe("formatPrometheus", () => {
+  test("prints typed metrics with labels", () => {
+    const text = formatPrometheus(snapshot());
+    expect(text).toContain("# TYPE superintent_remote_connections_total counter\n");
+    expect(text).toContain('superintent_remote_connections_total{transport="ssh"} 1\n');
+    expect(text).toContain('superintent_remote_auth_attempts_total{transport="ssh",result="fail"} 1\n');
+    expect(text).toContain('superintent_remote_info{version="1.0.0"} 1\n');
+    expect(text).toContain("superintent_remote_uptime_seconds 61\n");
+    expect(text).toContain('superintent_remote_terminal_uptime_seconds{session="app"} 90\n');
+    expect(text).toContain('superintent_remote_terminal_last_exit_code{session="app"} 0\n');
+    expect(text).toEndWith("\n");
+  });
+
+  test("leaves out unknown values and escapes label values", () => {
+    const text = formatPrometheus(snapshot([{ ...session, name: 'a"b', lastExitCode: null }]));
+    expect(text).not.toContain("superintent_remote_terminal_scrollback_bytes{");
+    expect(text).not.toContain("superintent_remote_terminal_last_exit_code{");
+    expect(text).toContain('superintent_remote_terminal_clients{session="a\\"b"} 2\n');
+  });
+});
+
+describe("healthSummary", () => {
+  test("is ok when every session is healthy", () => {
+    const summary = healthSummary(snapshot());
+    expect(summary.status).toBe("ok");
+    expect(summary.connections).toEqual({ active: 0, total: 1 });
+    expect(summary.sessions).toEqual([
+      { name: "app", health: "healthy", clients: 2, restarts: 1, lastExitCode: 0, uptimeSeconds: 90 },
+    ]);
+  });
+
+  test("reports recovering and given-up sessions", () => {
+    expect(healthSummary(snapshot([{ ...session, health: "client-died" }])).status).toBe("degraded");
+    expect(healthSummary(snapshot([session, { ...session, health: "failed" }])).status).toBe("failed");
+  });
+});
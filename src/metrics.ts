@@ -0,0 +1,266 @@
+import type { AuditEvent } from "./audit.ts";
+import type { Listener } from "./bind-addresses.ts";
+import type { HealthState } from "./health.ts";
+
+type Transport = "ssh" | "web";
+const TRANSPORTS: Transport[] = ["ssh", "web"];
+
+type AuthResult = "accept" | "fail" | "locked";
+const AUTH_RESULTS: AuthResult[] = ["accept", "fail", "locked"];
+
+/** Server-wide counters, derived from audit events as they are recorded. */
+export interface ServerCounters {
+  connectionsActive: Record<Transport, number>;
+  connectionsTotal: Record<Transport, number>;
+  connectionsRejected: Record<Transport, number>;
+  bytesIn: Record<Transport, number>; // network bytes of closed connections
+  bytesOut: Record<Transport, number>;
+  auth: Record<Transport, Record<AuthResult, number>>;
+  idleTimeouts: number;
+}
+
+/** One terminal session as the metrics endpoint reports it. */
+export interface SessionMetrics {
+  name: string;
+  health: HealthState;
+  clients: number;
+  bytesIn: number; // typed into the terminal
+  bytesOut: number; // terminal output
+  scrollbackBytes: number | null; // null when tmux cannot tell
+  resizes: number;
+  restarts: number;
+  lastExitCode: number | null;
+  uptimeMs: number; // since creation or the last watchdog restart
+}
+
+export interface MetricsSnapshot {
+  version: string;
+  uptimeMs: number;
+  counters: ServerCounters;
+  sessions: SessionMetrics[];
+}
+
+interface MetricsServerOptions {
+  port: number;
+  version: string;
+  startedAt: number;
+  sessions: () => Promise<SessionMetrics[]>; // read on every request
+}
+
+// Never exposed beyond this machine: the numbers describe who connects and when
+const METRICS_HOST = "127.0.0.1";
+
+const PREFIX = "superintent_remote";
+
+function perTransport(): Record<Transport, number> {
+  return { ssh: 0, web: 0 };
+}
+
+export function createCounters(): ServerCounters {
+  return {
+    connectionsActive: perTransport(),
+    connectionsTotal: perTransport(),
+    connectionsRejected: perTransport(),
+    bytesIn: perTransport(),
+    bytesOut: perTransport(),
+    auth: { ssh: { accept: 0, fail: 0, locked: 0 }, web: { accept: 0, fail: 0, locked: 0 } },
+    idleTimeouts: 0,
+  };
+}
+
+const counters = createCounters();
+
+/** Updates the counters for an event; called by audit() for every event. */
+export function countEvent(event: AuditEvent, target: ServerCounters = counters): void {
+  switch (event.type) {
+    case "connection.open":
+      target.connectionsTotal[event.transport]++;
+      target.connectionsActive[event.transport] = event.active;
+      break;
+    case "connection.close":
+      target.connectionsActive[event.transport] = event.active;
+      target.bytesIn[event.transport] += event.bytesIn;
+      target.bytesOut[event.transport] += event.bytesOut;
+      break;
+    case "connection.reject":
+      target.connectionsRejected[event.transport]++;
+      break;
+    case "connection.idle":
+      target.idleTimeouts++;
+      break;
+    case "auth.accept":
+      target.auth[event.transport].accept++;
+      break;
+    case "auth.fail":
+      target.auth[event.transport].fail++;
+      break;
+    case "auth.locked":
+      target.auth[event.transport].locked++;
+      break;
+  }
+}
+
+export async function collectMetrics(opts: MetricsServerOptions, now: number = Date.now()): Promise<MetricsSnapshot> {
+  return { version: opts.version, uptimeMs: now - opts.startedAt, counters, sessions: await opts.sessions() };
+}
+
+interface Sample {
+  labels: Record<string, string>;
+  value: number;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatSample(name: string, sample: Sample): string {
+  const labels = Object.entries(sample.labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return `${name}${labels.length > 0 ? `{${labels.join(",")}}` : ""} ${sample.value}`;
+}
+
+/** The Prometheus text exposition format, version 0.0.4. */
+export function formatPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: "counter" | "gauge", help: string, samples: Sample[]) => {
+    const full = `${PREFIX}_${name}`;
+    lines.push(`# HELP ${full} ${help}`, `# TYPE ${full} ${type}`, ...samples.map((s) => formatSample(full, s)));
+  };
+  const byTransport = (values: Record<Transport, number>) =>
+    TRANSPORTS.map((transport) => ({ labels: { transport }, value: values[transport] }));
+  const bySession = (value: (s: SessionMetrics) => number | null) =>
+    snapshot.sessions.flatMap((s) => {
+      const v = value(s);
+      return v === null ? [] : [{ labels: { session: s.name }, value: v }];
+    });
+  const { counters: c } = snapshot;
+
+  metric("info", "gauge", "Version of the running server.", [{ labels: { version: snapshot.version }, value: 1 }]);
+  metric("uptime_seconds", "gauge", "Seconds since the server started.", [
+    { labels: {}, value: Math.floor(snapshot.uptimeMs / 1000) },
+  ]);
+  metric("connections_active", "gauge", "Open connections.", byTransport(c.connectionsActive));
+  metric("connections_total", "counter", "Connections accepted.", byTransport(c.connectionsTotal));
+  metric(
+    "connections_rejected_total",
+    "counter",
+    "Connections refused by the address lists or the connection limit.",
+    byTransport(c.connectionsRejected),
+  );
+  metric("connection_bytes_received_total", "counter", "Bytes received on closed connections.", byTransport(c.bytesIn));
+  metric("connection_bytes_sent_total", "counter", "Bytes sent on closed connections.", byTransport(c.bytesOut));
+  metric(
+    "auth_attempts_total",
+    "counter",
+    "Authentication results: accepted, failed, or refused during a lockout.",
+    TRANSPORTS.flatMap((transport) =>
+      AUTH_RESULTS.map((result) => ({ labels: { transport, result }, value: c.auth[transport][result] })),
+    ),
+  );
+  metric("idle_timeouts_total", "counter", "Connections closed for inactivity.", [
+    { labels: {}, value: c.idleTimeouts },
+  ]);
+  metric(
+    "terminal_clients",
+    "gauge",
+    "Clients attached to the terminal.",
+    bySession((s) => s.clients),
+  );
+  metric(
+    "terminal_input_bytes_total",
+    "counter",
+    "Bytes typed into the terminal.",
+    bySession((s) => s.bytesIn),
+  );
+  metric(
+    "terminal_output_bytes_total",
+    "counter",
+    "Bytes of terminal output.",
+    bySession((s) => s.bytesOut),
+  );
+  metric(
+    "terminal_scrollback_bytes",
+    "gauge",
+    "History kept by tmux for the agent's pane.",
+    bySession((s) => s.scrollbackBytes),
+  );
+  metric(
+    "terminal_resizes_total",
+    "counter",
+    "Terminal size changes.",
+    bySession((s) => s.resizes),
+  );
+  metric(
+    "terminal_restarts_total",
+    "counter",
+    "Watchdog restarts.",
+    bySession((s) => s.restarts),
+  );
+  metric(
+    "terminal_last_exit_code",
+    "gauge",
+    "Exit code of the tmux client at the last failure.",
+    bySession((s) => s.lastExitCode),
+  );
+  metric(
+    "terminal_uptime_seconds",
+    "gauge",
+    "Seconds since the terminal started or was last restarted.",
+    bySession((s) => Math.floor(s.uptimeMs / 1000)),
+  );
+  metric(
+    "terminal_healthy",
+    "gauge",
+    "1 when the watchdog last saw the terminal healthy.",
+    bySession((s) => (s.health === "healthy" ? 1 : 0)),
+  );
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * A short JSON summary for health checks. "failed" means the watchdog gave up on a
+ * session, "degraded" that one is starting or recovering.
+ */
+export function healthSummary(snapshot: MetricsSnapshot) {
+  const states = snapshot.sessions.map((s) => s.health);
+  const status = states.includes("failed") ? "failed" : states.every((h) => h === "healthy") ? "ok" : "degraded";
+  const { connectionsActive, connectionsTotal } = snapshot.counters;
+  return {
+    status,
+    version: snapshot.version,
+    uptimeSeconds: Math.floor(snapshot.uptimeMs / 1000),
+    connections: {
+      active: connectionsActive.ssh + connectionsActive.web,
+      total: connectionsTotal.ssh + connectionsTotal.web,
+    },
+    sessions: snapshot.sessions.map((s) => ({
+      name: s.name,
+      health: s.health,
+      clients: s.clients,
+      restarts: s.restarts,
+      lastExitCode: s.lastExitCode,
+      uptimeSeconds: Math.floor(s.uptimeMs / 1000),
+    })),
+  };
+}
+
+/** Serves /metrics (Prometheus) and /health (JSON) on localhost. Binding failures throw. */
+export function startMetricsServer(opts: MetricsServerOptions): Listener {
+  const server = Bun.serve({
+    port: opts.port,
+    hostname: METRICS_HOST,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (url.pathname === "/metrics") {
+        return new Response(formatPrometheus(await collectMetrics(opts)), {
+          headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+        });
+      }
+      if (url.pathname === "/health") {
+        const summary = healthSummary(await collectMetrics(opts));
+        return Response.json(summary, { status: summary.status === "failed" ? 503 : 200 });
+      }
+      return new Response("Not found", { status: 404 });
+    },
+  });
+  return { address: METRICS_HOST, close: (onClosed) => void server.stop(false).then(() => onClosed?.()) };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { aclRefusal, createAcl, parseCidr, TAILSCALE_RANGES } from "./network-acl.ts";
+
+describe("parseCidr", () => {
+  test("accepts IPv4, IPv6 and bare addresses", () => {
+    expect(parseCidr("10.0.0.0/8").cidr).toBe("10.0.0.0/8");
+    expect(parseCidr("fd00::/8").cidr).toBe("fd00::/8");
+    expect(parseCidr("192.168.1.5").cidr).toBe("192.168.1.5/32");
+  });
+
+  test("rejects malformed ranges", () => {
+    expect(() => parseCidr("10.0.0.0/33")).toThrow("Invalid CIDR");
+    expect(() => parseCidr("example.com/8")).toThrow("Invalid CIDR");
+  });
+});
+
+describe("aclRefusal", () => {
+  test("allows only the tailnet by default", () => {
+    const acl = createAcl(TAILSCALE_RANGES, []);
+    expect(aclRefusal(acl, "100.101.102.103")).toBeNull();
+    expect(aclRefusal(acl, "::ffff:100.101.102.103")).toBeNull();
+    expect(aclRefusal(acl, "fd7a:115c:a1e0::1")).toBeNull();
+    expect(aclRefusal(acl, "192.168.1.20")).toBe("not in allowlist");
+  });
+
+  test("checks deny rules before the allowlist", () => {
+    const acl = createAcl(["192.168.1.0/24"], ["192.168.1.66"]);
+    expect(aclRefusal(acl, "192.168.1.20")).toBeNull();
+    expect(aclRefusal(acl, "192.168.1.66")).toBe("denied by 192.168.1.66/32");
+  });
+
+  test("an empty allowlist allows every address that is not denied", () => {
+    const acl = createAcl([], ["10.0.0.0/8"]);
+    expect(aclRefusal(acl, "203.0.113.9")).toBeNull();
+    expect(aclRefusal(acl, "10.1.2.3")).toBe("denied by 10.0.0.0/8");
+  });
+});
@@ -0,0 +1,55 @@
+import { BlockList, isIP } from "node:net";
+
+// Tailscale assigns addresses from the CGNAT range and its own IPv6 ULA prefix
+export const TAILSCALE_RANGES = ["100.64.0.0/10", "fd7a:115c:a1e0::/48"];
+
+interface CidrRule {
+  cidr: string;
+  list: BlockList;
+}
+
+export interface NetworkAcl {
+  allow: CidrRule[]; // empty = every address not denied is allowed
+  deny: CidrRule[];
+}
+
+/** Parses "10.0.0.0/8", "fd00::/8" or a bare address (treated as a single host). */
+export function parseCidr(value: string): CidrRule {
+  const trimmed = value.trim();
+  const slash = trimmed.indexOf("/");
+  const address = slash === -1 ? trimmed : trimmed.slice(0, slash);
+  const family = isIP(address);
+  if (family === 0) throw new Error(`Invalid CIDR: ${value}`);
+
+  const maxPrefix = family === 4 ? 32 : 128;
+  const prefix = slash === -1 ? maxPrefix : Number(trimmed.slice(slash + 1));
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    throw new Error(`Invalid CIDR: ${value}`);
+  }
+
+  const list = new BlockList();
+  list.addSubnet(address, prefix, family === 4 ? "ipv4" : "ipv6");
+  return { cidr: `${address}/${prefix}`, list };
+}
+
+export function createAcl(allow: string[], deny: string[]): NetworkAcl {
+  return { allow: allow.map(parseCidr), deny: deny.map(parseCidr) };
+}
+
+function matches(rule: CidrRule, ip: string): boolean {
+  const family = isIP(ip);
+  return family !== 0 && rule.list.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Returns why a peer address must be refused, or null when it may try to authenticate. */
+export function aclRefusal(acl: NetworkAcl, ip: string): string | null {
+  const address = ip.replace(/%.*$/, ""); // drop IPv6 zone IDs
+  if (isIP(address) === 0) return "unknown address";
+
+  const denied = acl.deny.find((rule) => matches(rule, address));
+  if (denied) return `denied by ${denied.cidr}`;
+  if (acl.allow.length > 0 && !acl.allow.some((rule) => matches(rule, address))) {
+    return "not in allowlist";
+  }
+  return null;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createOutputWatcher,
+  loadNotifyConfig,
+  type Notification,
+  watchExit,
+  watchInput,
+  watchOutput,
+} from "./notifier.ts";
+
+const URL = "https://ntfy.sh/my-topic";
+
+function watcherWith(env: Record<string, string> = {}) {
+  const config = loadNotifyConfig({ SUPERINTENT_REMOTE_NOTIFY_URL: URL, ...env });
+  if (!config) throw new Error("expected config");
+  const sent: Notification[] = [];
+  const watcher = createOutputWatcher(config, "api", (n) => sent.push(n));
+  return { config, watcher, sent };
+}
+
+describe("loadNotifyConfig", () => {
+  test("returns null without a URL", () => {
+    expect(loadNotifyConfig({})).toBeNull();
+  });
+
+  test("detects the format from the URL", () => {
+    expect(loadNotifyConfig({ SUPERINTENT_REMOTE_NOTIFY_URL: URL })?.format).toBe("ntfy");
+    expect(loadNotifyConfig({ SUPERINTENT_REMOTE_NOTIFY_URL: "https://example.com/hook" })?.format).toBe("json");
+  });
+
+  test("rejects unknown events", () => {
+    expect(() =>
+      loadNotifyConfig({ SUPERINTENT_REMOTE_NOTIFY_URL: URL, SUPERINTENT_REMOTE_NOTIFY_EVENTS: "permission,typo" }),
+    ).toThrow(/Unknown notify event "typo"/);
+  });
+
+  test("requires Pushover credentials", () => {
+    expect(() =>
+      loadNotifyConfig({ SUPERINTENT_REMOTE_NOTIFY_URL: "https://api.pushover.net/1/messages.json" }),
+    ).toThrow(/PUSHOVER_TOKEN/);
+  });
+});
+
+describe("output watcher", () => {
+  test("notifies on a permission prompt drawn with cursor moves", () => {
+    const { watcher, sent } = watcherWith({ SUPERINTENT_REMOTE_NOTIFY_QUIET_SECONDS: "0" });
+    watchOutput(watcher, Buffer.from("\x1b[12;3HDo\x1b[Cyou\x1b[Cwant\x1b[Cto\x1b[Cproceed?"));
+    expect(sent).toHaveLength(1);
+    expect(sent[0].event).toBe("permission");
+    expect(sent[0].title).toBe("api: Claude needs approval");
+  });
+
+  test("debounces repeated prompts", () => {
+    const { watcher, sent } = watcherWith({ SUPERINTENT_REMOTE_NOTIFY_QUIET_SECONDS: "0" });
+    watchOutput(watcher, Buffer.from("Do you want to proceed?"));
+    watchOutput(watcher, Buffer.from("Do you want to proceed?"));
+    expect(sent).toHaveLength(1);
+  });
+
+  test("stays quiet right after input", () => {
+    const { watcher, sent } = watcherWith();
+    watchInput(watcher);
+    watchOutput(watcher, Buffer.from("Do you want to proceed?"));
+    expect(sent).toHaveLength(0);
+  });
+
+  test("always reports exits", () => {
+    const { watcher, sent } = watcherWith();
+    watchInput(watcher);
+    watchExit(watcher, 1);
+    expect(sent.map((n) => n.message)).toEqual(["Exit code 1"]);
+  });
+});
@@ -0,0 +1,225 @@
+import { log, stripAnsi } from "./utils.ts";
+
+export type NotifyEvent = "permission" | "idle" | "exit";
+type NotifyFormat = "ntfy" | "pushover" | "json";
+
+export interface Notification {
+  event: NotifyEvent;
+  session: string;
+  title: string;
+  message: string;
+}
+
+export interface NotifyConfig {
+  url: string;
+  format: NotifyFormat;
+  events: Set<NotifyEvent>;
+  promptPattern: RegExp;
+  idleMs: number; // silence after a burst of output that counts as "waiting"
+  burstBytes: number; // minimum output since the last input/notification to count as a burst
+  debounceMs: number; // minimum gap between notifications of the same event
+  quietMs: number; // no notifications this soon after someone typed
+  pushover?: { token: string; user: string };
+}
+
+// Claude Code permission prompts, plus common y/n confirmations
+const DEFAULT_PROMPT_PATTERN =
+  /Do you want to (proceed|make this edit|create|allow|run)|Allow .{1,80} to run\?|\(y\/n\)|\[Y\/n\]|\[y\/N\]/i;
+const DEFAULT_IDLE_SECONDS = 30;
+const DEFAULT_BURST_BYTES = 2048;
+const DEFAULT_DEBOUNCE_SECONDS = 60;
+const DEFAULT_QUIET_SECONDS = 30;
+const ALL_EVENTS: NotifyEvent[] = ["permission", "idle", "exit"];
+
+// Keep enough stripped output to match a prompt split across PTY chunks
+const MATCH_TAIL_CHARS = 512;
+
+function seconds(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseFloat(value) : Number.NaN;
+  return (Number.isNaN(parsed) || parsed < 0 ? fallback : parsed) * 1000;
+}
+
+function detectFormat(url: string, format: string | undefined): NotifyFormat {
+  if (format === "ntfy" || format === "pushover" || format === "json") return format;
+  const host = new URL(url).hostname;
+  if (host.includes("ntfy")) return "ntfy";
+  if (host === "api.pushover.net") return "pushover";
+  return "json";
+}
+
+/**
+ * Reads SUPERINTENT_REMOTE_NOTIFY_* variables (usually from .superintent/.env).
+ * Returns null when no webhook URL is configured.
+ */
+export function loadNotifyConfig(env: Record<string, string | undefined> = process.env): NotifyConfig | null {
+  const url = env.SUPERINTENT_REMOTE_NOTIFY_URL;
+  if (!url) return null;
+
+  try {
+    new URL(url);
+  } catch {
+    throw new Error(`Invalid SUPERINTENT_REMOTE_NOTIFY_URL: ${url}`);
+  }
+
+  const events = new Set<NotifyEvent>();
+  for (const name of (env.SUPERINTENT_REMOTE_NOTIFY_EVENTS ?? ALL_EVENTS.join(",")).split(",")) {
+    const event = name.trim() as NotifyEvent;
+    if (!ALL_EVENTS.includes(event)) {
+      throw new Error(`Unknown notify event "${name.trim()}" (expected ${ALL_EVENTS.join(", ")})`);
+    }
+    events.add(event);
+  }
+
+  let promptPattern = DEFAULT_PROMPT_PATTERN;
+  if (env.SUPERINTENT_REMOTE_NOTIFY_PATTERN) {
+    try {
+      promptPattern = new RegExp(env.SUPERINTENT_REMOTE_NOTIFY_PATTERN, "i");
+    } catch {
+      throw new Error(`Invalid SUPERINTENT_REMOTE_NOTIFY_PATTERN: ${env.SUPERINTENT_REMOTE_NOTIFY_PATTERN}`);
+    }
+  }
+
+  const format = detectFormat(url, env.SUPERINTENT_REMOTE_NOTIFY_FORMAT);
+  let pushover: NotifyConfig["pushover"];
+  if (format === "pushover") {
+    const token = env.SUPERINTENT_REMOTE_NOTIFY_PUSHOVER_TOKEN;
+    const user = env.SUPERINTENT_REMOTE_NOTIFY_PUSHOVER_USER;
+    if (!token || !user) {
+      throw new Error("Pushover requires SUPERINTENT_REMOTE_NOTIFY_PUSHOVER_TOKEN and _USER");
+    }
+    pushover = { token, user };
+  }
+
+  return {
+    url,
+    format,
+    events,
+    promptPattern,
+    idleMs: seconds(env.SUPERINTENT_REMOTE_NOTIFY_IDLE_SECONDS, DEFAULT_IDLE_SECONDS),
+    burstBytes: DEFAULT_BURST_BYTES,
+    debounceMs: seconds(env.SUPERINTENT_REMOTE_NOTIFY_DEBOUNCE_SECONDS, DEFAULT_DEBOUNCE_SECONDS),
+    quietMs: seconds(env.SUPERINTENT_REMOTE_NOTIFY_QUIET_SECONDS, DEFAULT_QUIET_SECONDS),
+    pushover,
+  };
+}
+
+export async function sendNotification(config: NotifyConfig, notification: Notification): Promise<void> {
+  let init: RequestInit;
+  switch (config.format) {
+    case "ntfy":
+      init = {
+        body: notification.message,
+        headers: {
+          Title: notification.title,
+          Tags: notification.event === "exit" ? "warning" : "robot",
+          Priority: notification.event === "permission" ? "high" : "default",
+        },
+      };
+      break;
+    case "pushover":
+      init = {
+        body: new URLSearchParams({
+          token: config.pushover?.token ?? "",
+          user: config.pushover?.user ?? "",
+          title: notification.title,
+          message: notification.message,
+        }),
+      };
+      break;
+    case "json":
+      init = {
+        body: JSON.stringify({ ...notification, timestamp: new Date().toISOString() }),
+        headers: { "Content-Type": "application/json" },
+      };
+      break;
+  }
+
+  try {
+    const res = await fetch(config.url, { method: "POST", ...init });
+    if (!res.ok) log(`Notification failed (${notification.event}): HTTP ${res.status}`);
+  } catch (err) {
+    log(`Notification failed (${notification.event}): ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+export interface OutputWatcher {
+  config: NotifyConfig;
+  session: string;
+  send: (notification: Notification) => void;
+  tail: string;
+  burstBytes: number;
+  lastInputAt: number;
+  lastSentAt: Map<NotifyEvent, number>;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export function createOutputWatcher(
+  config: NotifyConfig,
+  session: string,
+  send: (notification: Notification) => void = (n) => void sendNotification(config, n),
+): OutputWatcher {
+  return {
+    config,
+    session,
+    send,
+    tail: "",
+    burstBytes: 0,
+    lastInputAt: 0,
+    lastSentAt: new Map(),
+    idleTimer: null,
+  };
+}
+
+function notify(watcher: OutputWatcher, event: NotifyEvent, title: string, message: string): void {
+  const { config } = watcher;
+  if (!config.events.has(event)) return;
+
+  const now = Date.now();
+  // Someone is at the keyboard — they can see it already (exits always go through)
+  if (event !== "exit" && now - watcher.lastInputAt < config.quietMs) return;
+  if (now - (watcher.lastSentAt.get(event) ?? 0) < config.debounceMs) return;
+
+  watcher.lastSentAt.set(event, now);
+  log(`Notify (${event}): ${watcher.session}`);
+  watcher.send({ event, session: watcher.session, title: `${watcher.session}: ${title}`, message });
+}
+
+export function watchOutput(watcher: OutputWatcher, data: Uint8Array): void {
+  const text = stripAnsi(Buffer.from(data).toString());
+  const window = watcher.tail + text;
+  watcher.tail = window.slice(-MATCH_TAIL_CHARS);
+
+  const match = window.match(watcher.config.promptPattern);
+  if (match) {
+    watcher.tail = "";
+    notify(watcher, "permission", "Claude needs approval", match[0]);
+  }
+
+  // Restart the idle countdown on every chunk of output
+  watcher.burstBytes += data.length;
+  if (watcher.idleTimer) clearTimeout(watcher.idleTimer);
+  watcher.idleTimer = setTimeout(() => {
+    watcher.idleTimer = null;
+    if (watcher.burstBytes < watcher.config.burstBytes) return;
+    watcher.burstBytes = 0;
+    notify(watcher, "idle", "Claude is waiting", `No output for ${watcher.config.idleMs / 1000}s`);
+  }, watcher.config.idleMs);
+}
+
+export function watchInput(watcher: OutputWatcher): void {
+  watcher.lastInputAt = Date.now();
+  watcher.burstBytes = 0;
+}
+
+export function watchExit(watcher: OutputWatcher, exitCode: number | null, title = "Terminal exited"): void {
+  if (watcher.idleTimer) {
+    clearTimeout(watcher.idleTimer);
+    watcher.idleTimer = null;
+  }
+  notify(watcher, "exit", title, `Exit code ${exitCode ?? "unknown"}`);
+}
+
+export function stopWatcher(watcher: OutputWatcher): void {
+  if (watcher.idleTimer) clearTimeout(watcher.idleTimer);
+  watcher.idleTimer = null;
+}
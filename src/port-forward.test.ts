@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { forwardRefusal, parseForwardPorts } from "./port-forward.ts";
+
+describe("parseForwardPorts", () => {
+  test("parses, sorts and de-duplicates a comma-separated list", () => {
+    expect(parseForwardPorts("5173, 3000,3000,")).toEqual([3000, 5173]);
+  });
+
+  test("rejects invalid ports", () => {
+    expect(() => parseForwardPorts("3000,abc")).toThrow("Invalid forward port: abc");
+    expect(() => parseForwardPorts("70000")).toThrow();
+  });
+});
+
+describe("forwardRefusal", () => {
+  const allowed = [3000, 5173];
+
+  test("allows loopback destinations on allowlisted ports", () => {
+    expect(forwardRefusal({ destIP: "localhost", destPort: 3000 }, allowed)).toBeNull();
+    expect(forwardRefusal({ destIP: "127.0.0.1", destPort: 5173 }, allowed)).toBeNull();
+    expect(forwardRefusal({ destIP: "::1", destPort: 3000 }, allowed)).toBeNull();
+  });
+
+  test("refuses other hosts", () => {
+    expect(forwardRefusal({ destIP: "10.0.0.5", destPort: 3000 }, allowed)).toBe("destination is not loopback");
+    expect(forwardRefusal({ destIP: "example.com", destPort: 3000 }, allowed)).toBe("destination is not loopback");
+  });
+
+  test("refuses ports outside the allowlist", () => {
+    expect(forwardRefusal({ destIP: "localhost", destPort: 22 }, allowed)).toBe("port not in allowlist");
+    expect(forwardRefusal({ destIP: "localhost", destPort: 3000 }, [])).toBe("port not in allowlist");
+  });
+});
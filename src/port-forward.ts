@@ -0,0 +1,76 @@
+import { connect, isIP, type Socket } from "node:net";
+import type { ServerChannel } from "ssh2";
+import { log } from "./utils.ts";
+
+export interface ForwardRequest {
+  destIP: string;
+  destPort: number;
+}
+
+export interface ForwardOptions {
+  label: string; // identifies the connection in log lines
+  onActivity: () => void; // called on traffic in either direction
+}
+
+/** Parses "3000,5173" into a sorted, de-duplicated port list. Throws on invalid ports. */
+export function parseForwardPorts(value: string): number[] {
+  const ports = new Set<number>();
+  for (const part of value.split(",")) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const port = Number(trimmed);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid forward port: ${trimmed}`);
+    }
+    ports.add(port);
+  }
+  return [...ports].sort((a, b) => a - b);
+}
+
+function isLoopback(host: string): boolean {
+  const normalized = host.toLowerCase().replace(/^\[|\]$/g, "");
+  if (normalized === "localhost") return true;
+  if (isIP(normalized) === 4) return normalized.startsWith("127.");
+  return normalized === "::1" || normalized === "::ffff:127.0.0.1";
+}
+
+/** Returns why a `direct-tcpip` request must be refused, or null when it is allowed. */
+export function forwardRefusal(request: ForwardRequest, allowedPorts: number[]): string | null {
+  if (!isLoopback(request.destIP)) return "destination is not loopback";
+  if (!allowedPorts.includes(request.destPort)) return "port not in allowlist";
+  return null;
+}
+
+/**
+ * Pipes an accepted `direct-tcpip` channel to the local port. Returns the socket so the
+ * caller can destroy it when the SSH connection goes away.
+ */
+export function pipeForward(channel: ServerChannel, request: ForwardRequest, opts: ForwardOptions): Socket {
+  const target = `${request.destIP}:${request.destPort}`;
+  const socket = connect({ host: request.destIP, port: request.destPort });
+  let bytesIn = 0;
+  let bytesOut = 0;
+
+  socket.on("connect", () => log(`Forward opened: ${opts.label} -> ${target}`));
+  socket.on("data", (data: Buffer) => {
+    bytesIn += data.length;
+    opts.onActivity();
+  });
+  channel.on("data", (data: Buffer) => {
+    bytesOut += data.length;
+    opts.onActivity();
+  });
+  socket.pipe(channel).pipe(socket);
+
+  socket.on("error", (err: NodeJS.ErrnoException) => {
+    log(`Forward failed: ${opts.label} -> ${target} (${err.code ?? err.message})`);
+    channel.close();
+  });
+  socket.on("close", () => {
+    log(`Forward closed: ${opts.label} -> ${target} (sent ${bytesOut} B, received ${bytesIn} B)`);
+    channel.close();
+  });
+  channel.on("close", () => socket.destroy());
+
+  return socket;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { formatJoinNotice, formatLeaveNotice, formatWho, type PresenceEntry } from "./presence.ts";
+
+const phone: PresenceEntry = {
+  conn: "a1b2c3d4",
+  transport: "ssh",
+  ip: "100.64.0.7",
+  identity: "alice@example.com on phone",
+  auth: "tailscale+totp",
+  software: "SSH-2.0-OpenSSH_9.6",
+  connectedAt: 0,
+  session: "app",
+  readOnly: false,
+  activeAt: 60_000,
+  driver: true,
+};
+
+const browser: PresenceEntry = {
+  conn: "e5f6a7b8",
+  transport: "web",
+  ip: "192.168.1.20",
+  identity: null,
+  auth: "password",
+  software: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15",
+  connectedAt: 30_000,
+  session: "app",
+  readOnly: true,
+  activeAt: 30_000,
+  driver: false,
+};
+
+describe("notices", () => {
+  test("name the client by identity, else by address", () => {
+    expect(formatJoinNotice(phone, false)).toBe("alice@example.com on phone joined over SSH");
+    expect(formatJoinNotice(browser, true)).toBe("192.168.1.20 joined over the browser (read-only)");
+    expect(formatLeaveNotice(browser)).toBe("192.168.1.20 left");
+  });
+});
+
+describe("formatWho", () => {
+  test("prints a header and one aligned row per client", () => {
+    const lines = formatWho([phone, browser], 120_000, "e5f6a7b8").split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toStartWith("ID         SESSION  WHO");
+    expect(lines[1]).toStartWith("a1b2c3d4   app      alice@example.com on phone (driver)");
+    expect(lines[1]).toContain("100.64.0.7 (ssh, tailscale+totp)");
+    expect(lines[1]).toContain("OpenSSH_9.6");
+    expect(lines[1]).toContain("2m 00s");
+    expect(lines[1]).toEndWith("1m 00s");
+    expect(lines[2]).toStartWith("e5f6a7b8*  app      - (read-only)");
+    expect(lines[2]).toContain("Mozilla/5.0 (Macintosh; Intel M…");
+  });
+
+  test("says so when nobody is connected", () => {
+    expect(formatWho([])).toBe("No clients connected.");
+  });
+});
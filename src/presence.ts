@@ -0,0 +1,64 @@
+import { formatDuration } from "./utils.ts";
+
+/** Who is behind one attached client, as reported by `who`. */
+export interface ClientPresence {
+  conn: string; // connection ID, as in the audit log and for `kick`
+  transport: "ssh" | "web";
+  ip: string;
+  identity: string | null; // tailnet identity, else the authorized_keys comment
+  auth: string; // method as in the audit log, e.g. "password+totp"
+  software: string | null; // SSH client banner or browser user agent
+  connectedAt: number;
+}
+
+/** A client in one session, with the state `who` shows next to its presence. */
+export interface PresenceEntry extends ClientPresence {
+  session: string;
+  readOnly: boolean;
+  activeAt: number; // last input, or the connect time
+  driver: boolean; // holds the input lock in driver mode
+}
+
+// Long browser user agents are cut to keep `who` on one line per client
+const MAX_SOFTWARE_LENGTH = 32;
+
+/** E.g. "alice@example.com on phone" or "100.64.0.7"; used in join and leave notices. */
+export function describeClient(presence: ClientPresence): string {
+  return presence.identity ?? presence.ip;
+}
+
+export function formatJoinNotice(presence: ClientPresence, readOnly: boolean): string {
+  const via = presence.transport === "ssh" ? "SSH" : "the browser";
+  return `${describeClient(presence)} joined over ${via}${readOnly ? " (read-only)" : ""}`;
+}
+
+export function formatLeaveNotice(presence: ClientPresence): string {
+  return `${describeClient(presence)} left`;
+}
+
+function formatSoftware(software: string | null): string {
+  if (!software) return "-";
+  const short = software.replace(/^SSH-2\.0-/, "");
+  return short.length > MAX_SOFTWARE_LENGTH ? `${short.slice(0, MAX_SOFTWARE_LENGTH - 1)}…` : short;
+}
+
+/** One row per client, for `who` (`self` marks the asking connection). */
+export function formatWho(entries: PresenceEntry[], now: number = Date.now(), self?: string): string {
+  if (entries.length === 0) return "No clients connected.";
+  const rows = [
+    ["ID", "SESSION", "WHO", "FROM", "CLIENT", "CONNECTED", "IDLE"],
+    ...entries.map((e) => [
+      `${e.conn}${e.conn === self ? "*" : ""}`,
+      e.session,
+      `${e.identity ?? "-"}${e.readOnly ? " (read-only)" : ""}${e.driver ? " (driver)" : ""}`,
+      `${e.ip} (${e.transport}, ${e.auth})`,
+      formatSoftware(e.software),
+      formatDuration(now - e.connectedAt),
+      formatDuration(Math.max(0, now - e.activeAt)),
+    ]),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows
+    .map((r) => r.map((cell, i) => (i === r.length - 1 ? cell : cell.padEnd(widths[i] + 2))).join(""))
+    .join("\n");
+}
@@ -1,135 +1,337 @@
 import { randomBytes } from "node:crypto";
-import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { createInterface } from "node:readline";
 import type { Server } from "ssh2";
+import { type AgentSpec, agentCommandLine, DEFAULT_AGENT_SPEC } from "./agent-launch.ts";
+import { audit, startAudit } from "./audit.ts";
+import { loadAuthState } from "./auth.ts";
+import { AUTHORIZED_KEYS_PATHS, findAuthorizedKeysFile, loadAuthorizedKeys } from "./authorized-keys.ts";
+import {
+  ADDRESS_CHECK_MS,
+  type BindAddress,
+  detectAddresses,
+  diffAddresses,
+  type Listener,
+  urlHost,
+} from "./bind-addresses.ts";
+import type { SessionSpec } from "./config.ts";
+import { classifyHealth, formatRestart, restartPlan } from "./health.ts";
+import { describeHostKeys } from "./host-keys.ts";
+import type { Macro } from "./input-escapes.ts";
+import { type InstanceState, instanceLogPath, removeState, takeKickRequests, writeState } from "./instances.ts";
+import { startMetricsServer } from "./metrics.ts";
+import { createAcl, type NetworkAcl, TAILSCALE_RANGES } from "./network-acl.ts";
+import { loadNotifyConfig, type NotifyConfig, watchExit } from "./notifier.ts";
 import { qrToTerminal } from "./qr.ts";
-import { startSSHServer } from "./ssh-server.ts";
-import { attachTerminal, getProc, killTerminal, spawnTerminal } from "./terminal.ts";
-import { createTmuxSessionName, ensureCacheDir, hasTmuxSession, removePid, writePid } from "./utils.ts";
+import { listenSSH, startSSHServer } from "./ssh-server.ts";
+import {
+  attachTerminal,
+  createSession,
+  kickClient,
+  killTerminal,
+  listPresence,
+  listSessions,
+  type ResizePolicy,
+  relaunchAgent,
+  sampleHealth,
+  sessionMetrics,
+  spawnTerminal,
+  type TerminalSession,
+  writeNotice,
+} from "./terminal.ts";
+import { loadTotpSecret } from "./totp.ts";
+import {
+  createTmuxSessionName,
+  ensureCacheDir,
+  formatDuration,
+  getLocalSubnets,
+  hasTmuxSession,
+  LOG_DIR,
+  log,
+  projectSessionName,
+  setLogFile,
+} from "./utils.ts";
+import { createWebServer } from "./web-server.ts";
 
-// Load .superintent/.env if it exists
-function loadEnvFile(): void {
-  const envPath = join(process.cwd(), ".superintent", ".env");
-  try {
-    const content = readFileSync(envPath, "utf-8");
-    for (const line of content.split("\n")) {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed.startsWith("#")) continue;
-      const eqIndex = trimmed.indexOf("=");
-      if (eqIndex === -1) continue;
-      const key = trimmed.slice(0, eqIndex).trim();
-      const value = trimmed
-        .slice(eqIndex + 1)
-        .trim()
-        .replace(/^["']|["']$/g, "");
-      // Don't override existing env vars
-      if (!process.env[key]) {
-        process.env[key] = value;
-      }
-    }
-  } catch {
-    // File doesn't exist — that's fine
-  }
-}
+const pkg = await Bun.file(join(import.meta.dir, "../package.json")).json();
 
-loadEnvFile();
+export const DEFAULT_MAX_RESTARTS = 10;
 
-const pkg = await Bun.file(join(import.meta.dir, "../package.json")).json();
+// A terminal healthy for this long starts over with the shortest restart delay
+export const DEFAULT_STABLE_UPTIME_MS = 10 * 60 * 1000;
 
-const MAX_RESTARTS = 10;
+// How often the watchdog checks the tmux pane; a tmux client exiting is noticed at once
+const HEALTH_POLL_MS = 2000;
 
 let shutdownRequested = false;
 let sshServer: Server | null = null;
-let currentSessionName = "";
-let currentCwd = "";
+let serveWeb: ((host: string) => Listener) | null = null;
 let currentPort = 0;
-let isAttachMode = false;
+
+// One listener per address, kept in step with the machine's addresses
+const sshListeners = new Map<string, Listener>();
+const webListeners = new Map<string, Listener>();
+const failedBinds = new Set<string>(); // logged once, retried on every check
+let currentAddresses: BindAddress[] = [];
+let addressTimer: ReturnType<typeof setInterval> | null = null;
+let metricsListener: Listener | null = null;
 let isYoloMode = false;
+let maxRestarts = DEFAULT_MAX_RESTARTS;
+let stableUptimeMs = DEFAULT_STABLE_UPTIME_MS;
+let stateTimer: ReturnType<typeof setInterval> | null = null;
+
+// How often the state file read by `list`/`status` is refreshed (only written when it changes)
+const STATE_REFRESH_MS = 2000;
 
 function generatePassword(): string {
   return randomBytes(8).toString("hex"); // 16-char hex
 }
 
-async function watchdog(): Promise<void> {
-  let restartCount = 0;
+/**
+ * Polls each terminal's health and recovers from failures: reattaches a lost tmux client,
+ * relaunches an agent that exited to the shell, and recreates a lost tmux session.
+ */
+async function watchdog(session: TerminalSession): Promise<void> {
+  let restartCount = 0; // since the last stable period, drives the backoff
+  let healthySince = Date.now();
+  let agentExitSeen = false;
 
   while (!shutdownRequested) {
-    const proc = getProc();
+    const proc = session.proc;
     if (!proc) break;
-    await proc.exited;
-
+    await Promise.race([proc.exited, Bun.sleep(HEALTH_POLL_MS)]);
     if (shutdownRequested) break;
 
+    const now = Date.now();
+    const state = classifyHealth(await sampleHealth(session, now));
+    if (state === "healthy" || state === "starting") {
+      if (state === "healthy" && session.health !== "healthy") healthySince = now;
+      session.health = state;
+      agentExitSeen = false;
+      if (state === "healthy" && restartCount > 0 && now - healthySince >= stableUptimeMs) {
+        audit({ type: "terminal.stable", session: session.name, uptimeMs: now - healthySince, restarts: restartCount });
+        restartCount = 0;
+      }
+      continue;
+    }
+
+    // Only act on an exited agent when the next poll still shows the shell
+    if (state === "agent-exited" && !agentExitSeen) {
+      agentExitSeen = true;
+      continue;
+    }
+    agentExitSeen = false;
+    session.health = state;
+    session.stats.lastExitCode = proc.exitCode;
+    if (session.watcher && state !== "client-died") {
+      watchExit(session.watcher, proc.exitCode, state === "agent-exited" ? "Agent exited" : "Terminal exited");
+    }
+
     restartCount++;
-    if (restartCount > MAX_RESTARTS) {
-      console.error(`[${new Date().toISOString()}] Terminal exceeded ${MAX_RESTARTS} restarts, giving up`);
+    session.restarts++;
+    if (restartCount > maxRestarts) {
+      session.health = "failed";
+      audit({ type: "terminal.giveup", session: session.name, restarts: maxRestarts });
+      writeNotice(session, `Exceeded ${maxRestarts} restarts, giving up`);
       break;
     }
 
-    const delay = Math.min(1000 * 2 ** restartCount, 60000);
-    console.log(
-      `[${new Date().toISOString()}] Terminal exited, restarting in ${delay / 1000}s... (attempt ${restartCount}/${MAX_RESTARTS})`,
-    );
-    await Bun.sleep(delay);
-
+    const plan = restartPlan(state, restartCount);
+    audit({
+      type: "terminal.exit",
+      session: session.name,
+      cause: state,
+      action: plan.action,
+      exitCode: proc.exitCode,
+      attempt: restartCount,
+      maxRestarts,
+      delayMs: plan.delayMs,
+    });
+    writeNotice(session, formatRestart(state, plan, restartCount, maxRestarts));
+    await Bun.sleep(plan.delayMs);
     if (shutdownRequested) break;
 
-    if (isAttachMode && hasTmuxSession(currentSessionName)) {
-      attachTerminal(currentSessionName);
-    } else {
-      spawnTerminal(currentSessionName, currentCwd, isYoloMode);
-    }
-    console.log(`[${new Date().toISOString()}] Terminal restarted`);
+    // Things may have changed while waiting (the agent was started by hand, the server died)
+    const current = classifyHealth(await sampleHealth(session));
+    if (current === "healthy" || current === "starting") continue;
+    const action = restartPlan(current, restartCount).action;
+    if (action === "reattach") attachTerminal(session);
+    else if (action === "relaunch") relaunchAgent(session);
+    else spawnTerminal(session);
+    session.health = "starting";
+    session.stats.restartedAt = Date.now();
+    audit({ type: "terminal.restart", session: session.name, action, attempt: restartCount });
   }
 }
 
 const SHUTDOWN_GRACE_MS = 3000;
 
-async function shutdown(): Promise<void> {
+// Interactive shutdowns (Ctrl+C) ask before killing tmux sessions; `superintent-remote stop`
+// sends SIGTERM, which keeps them so no work is lost.
+async function shutdown(interactive: boolean): Promise<void> {
   if (shutdownRequested) return;
   shutdownRequested = true;
+  if (stateTimer) clearInterval(stateTimer);
+  if (addressTimer) clearInterval(addressTimer);
+  audit({ type: "server.shutdown", interactive });
 
   console.log("\n\x1b[90mShutting down...\x1b[0m");
 
   console.log("\x1b[90mStopping SSH server (waiting for active connections)...\x1b[0m");
-  if (sshServer) {
-    // close() stops accepting new connections; existing connections drain
-    await new Promise<void>((resolve) => {
-      sshServer?.close(() => resolve());
-      // Force close after grace period
-      setTimeout(resolve, SHUTDOWN_GRACE_MS);
-    });
-    sshServer = null;
+  // Closing a listener stops new connections; existing ones drain, up to a grace period
+  const drained = [...sshListeners.values()].map((listener) => new Promise<void>((resolve) => listener.close(resolve)));
+  await Promise.race([Promise.all(drained), Bun.sleep(SHUTDOWN_GRACE_MS)]);
+  sshListeners.clear();
+  sshServer = null;
+
+  if (webListeners.size > 0) {
+    console.log("\x1b[90mStopping web server...\x1b[0m");
+    for (const listener of webListeners.values()) listener.close();
+    webListeners.clear();
   }
-
-  let keepSession = isAttachMode;
-  if (!isAttachMode) {
-    keepSession = !(await promptUser("Kill tmux session? [Y/N] "));
+  metricsListener?.close();
+  metricsListener = null;
+
+  // Attached sessions are never killed; ask once for the ones we created
+  const sessions = listSessions();
+  const owned = sessions.filter((s) => !s.attached);
+  let keepOwned = true;
+  if (owned.length > 0 && interactive && process.stdin.isTTY) {
+    keepOwned = !(await promptUser(`Kill tmux session${owned.length === 1 ? "" : "s"}? [Y/N] `));
   }
 
-  if (keepSession) {
-    console.log("\x1b[90mDetaching from tmux session (session kept alive)...\x1b[0m");
-  } else {
-    console.log("\x1b[90mKilling tmux session...\x1b[0m");
+  for (const session of sessions) {
+    const keepSession = session.attached || keepOwned;
+    if (keepSession) {
+      console.log(`\x1b[90mDetaching from tmux session ${session.tmuxSession} (session kept alive)...\x1b[0m`);
+    } else {
+      console.log(`\x1b[90mKilling tmux session ${session.tmuxSession}...\x1b[0m`);
+    }
+    killTerminal(session, { keepSession });
   }
-  killTerminal({ keepSession });
 
-  console.log("\x1b[90mCleaning up PID file...\x1b[0m");
-  await removePid(`wrapper-${currentPort}`);
+  console.log("\x1b[90mCleaning up state file...\x1b[0m");
+  removeState(currentPort);
 
   console.log("\x1b[90mSee ya!\x1b[0m");
   process.exit(0);
 }
 
 export interface StartOptions {
-  ip: string;
+  addresses: BindAddress[]; // detected at startup, re-detected while running
+  bind?: string[]; // explicit addresses, kept across re-detection
   port: number;
   noAuth: boolean;
+  noPassword?: boolean;
+  tailnetAllow?: string[]; // authenticate by tailnet identity instead of a password or key
+  viewer?: boolean;
   attachSession?: string;
+  sessions?: SessionSpec[]; // additional project sessions
+  web?: boolean;
+  webPort?: number;
+  qrWeb?: boolean; // encode the web URL instead of the ssh:// URI
+  resizePolicy?: ResizePolicy;
+  driverIdleMs?: number | null; // set = driver mode, one client types at a time
+  sftp?: boolean;
+  sftpReadOnly?: boolean;
+  forwardPorts?: number[]; // loopback ports allowed for `ssh -L`
+  allow?: string[] | null; // CIDRs allowed to connect (null = default for the mode)
+  deny?: string[];
+  record?: boolean; // write asciinema casts to LOG_DIR
+  recordInput?: boolean;
   noQr?: boolean;
   local?: boolean;
   yolo?: boolean;
+  maxConnections?: number;
+  idleTimeoutMs?: number;
+  maxScrollback?: number;
+  maxRestarts?: number;
+  stableUptimeMs?: number;
+  macros?: Macro[]; // `~<key>` input shortcuts
+  metricsPort?: number | null; // serve /metrics and /health on localhost
+  agent?: AgentSpec;
+}
+
+function defaultAllow(opts: StartOptions): string[] {
+  return opts.local ? getLocalSubnets() : TAILSCALE_RANGES;
+}
+
+function webUrlFor(address: string, opts: StartOptions): string | null {
+  return opts.web ? `http://${urlHost(address)}:${opts.webPort}/` : null;
+}
+
+/** Opens listeners on new addresses and closes those on addresses that went away. */
+async function syncListeners(opts: StartOptions): Promise<void> {
+  const addresses = currentAddresses.map((a) => a.address);
+  for (const listeners of [sshListeners, webListeners]) {
+    for (const [address, listener] of listeners) {
+      if (addresses.includes(address)) continue;
+      listener.close(); // connections made through it keep running
+      listeners.delete(address);
+    }
+  }
+  for (const address of addresses) {
+    try {
+      if (sshServer && !sshListeners.has(address)) {
+        sshListeners.set(address, await listenSSH(sshServer, opts.port, address));
+      }
+      if (serveWeb && !webListeners.has(address)) webListeners.set(address, serveWeb(address));
+      failedBinds.delete(address);
+    } catch (err) {
+      if (!failedBinds.has(address)) log(`Cannot listen on ${address}: ${err instanceof Error ? err.message : err}`);
+      failedBinds.add(address);
+    }
+  }
+}
+
+/** Re-detects addresses; on a change, rebinds and prints the new way to connect. */
+async function checkAddresses(opts: StartOptions, acl: NetworkAcl): Promise<void> {
+  const next = await detectAddresses({ local: opts.local ?? false, bind: opts.bind ?? [] });
+  const previous = currentAddresses.map((a) => a.address);
+  const { added, removed } = diffAddresses(
+    previous,
+    next.map((a) => a.address),
+  );
+  const changed = added.length > 0 || removed.length > 0;
+  if (changed) {
+    currentAddresses = next;
+    audit({ type: "server.addresses", added, removed, addresses: next.map((a) => a.address) });
+    // The default allowlist follows the LAN subnets; explicit --allow values stay as given
+    if (!opts.allow) acl.allow = createAcl(defaultAllow(opts), []).allow;
+  }
+  await syncListeners(opts); // also retries addresses that could not be bound before
+  if (changed && next.length > 0) await printConnectInfo(opts);
+}
+
+/** Listening addresses, one block per session and the QR code, for the banner and after address changes. */
+async function printConnectInfo(opts: StartOptions): Promise<void> {
+  const [primary] = currentAddresses;
+  if (!primary) return;
+  const host = primary.address;
+  const webUrl = webUrlFor(host, opts);
+  console.log(
+    `Listen     ${currentAddresses.map((a) => a.address).join(", ")} \x1b[90m(port ${opts.port}${webUrl ? `, web ${opts.webPort}` : ""})\x1b[0m`,
+  );
+  for (const session of listSessions()) {
+    console.log("");
+    console.log(`Session    ${session.name}`);
+    console.log(`Project    ${session.cwd}`);
+    console.log(`Tmux       ${session.tmuxSession}${session.attached ? " (attached)" : ""}`);
+    console.log(`Connect    ssh ${session.name}@${host} -p ${opts.port}`);
+    if (webUrl) {
+      console.log(`Web        ${webUrl}?session=${session.name}`);
+    }
+  }
+  const [first] = listSessions();
+  if (!opts.noQr && first) {
+    const sshUri = `ssh://${first.name}@${urlHost(host)}:${opts.port}`;
+    const qr = await qrToTerminal(opts.qrWeb && webUrl ? webUrl : sshUri);
+    console.log("");
+    console.log("Scan to connect");
+    for (const line of qr.trimEnd().split("\n")) {
+      console.log(`  ${line}`);
+    }
+  }
 }
 
 function promptUser(question: string): Promise<boolean> {
@@ -144,16 +346,42 @@ function promptUser(question: string): Promise<boolean> {
 
 export async function startServices(opts: StartOptions): Promise<void> {
   ensureCacheDir();
+  setLogFile(instanceLogPath(opts.port));
+  startAudit();
+  loadAuthState();
 
   currentPort = opts.port;
-  currentCwd = process.cwd();
   isYoloMode = opts.yolo ?? false;
+  maxRestarts = opts.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+  stableUptimeMs = opts.stableUptimeMs ?? DEFAULT_STABLE_UPTIME_MS;
+
+  // Webhook notifications, configured via SUPERINTENT_REMOTE_NOTIFY_* (usually in .superintent/.env)
+  let notifyConfig: NotifyConfig | null = null;
+  try {
+    notifyConfig = loadNotifyConfig();
+  } catch (err) {
+    console.error(`ERROR: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
 
+  // Primary session for the current directory — attaches to an existing tmux session if requested
+  const cwd = process.cwd();
+  const primaryName = projectSessionName(cwd);
+  const record = opts.record ? { input: opts.recordInput ?? false } : null;
+  const shared = {
+    yolo: isYoloMode,
+    agent: opts.agent,
+    record,
+    notify: notifyConfig,
+    resizePolicy: opts.resizePolicy,
+    driver: opts.driverIdleMs ? { idleMs: opts.driverIdleMs } : null,
+    maxScrollback: opts.maxScrollback,
+  };
   if (opts.attachSession) {
     if (hasTmuxSession(opts.attachSession)) {
-      isAttachMode = true;
-      currentSessionName = opts.attachSession;
-      attachTerminal(currentSessionName);
+      attachTerminal(
+        createSession({ ...shared, name: primaryName, tmuxSession: opts.attachSession, cwd, attached: true }),
+      );
     } else {
       console.error(`Session "${opts.attachSession}" not found.`);
       const create = await promptUser("Create a new session instead? [Y/N] ");
@@ -161,25 +389,149 @@ export async function startServices(opts: StartOptions): Promise<void> {
         console.error("Aborted.");
         process.exit(0);
       }
-      currentSessionName = createTmuxSessionName(currentCwd);
-      spawnTerminal(currentSessionName, currentCwd, isYoloMode);
+      spawnTerminal(createSession({ ...shared, name: primaryName, tmuxSession: createTmuxSessionName(cwd), cwd }));
     }
   } else {
-    currentSessionName = createTmuxSessionName(currentCwd);
-    spawnTerminal(currentSessionName, currentCwd, isYoloMode);
+    spawnTerminal(createSession({ ...shared, name: primaryName, tmuxSession: createTmuxSessionName(cwd), cwd }));
+  }
+
+  for (const spec of opts.sessions ?? []) {
+    const tmuxSession = createTmuxSessionName(spec.cwd);
+    spawnTerminal(createSession({ ...shared, name: spec.name, tmuxSession, cwd: spec.cwd }));
+  }
+
+  // Tailnet identity replaces passwords and keys; a TOTP code can still be required on top
+  const tailnetAllow = opts.tailnetAllow ?? [];
+  const identityAuth = tailnetAllow.length > 0;
+
+  // Public key auth is enabled whenever an authorized_keys file exists
+  const authorizedKeysPath = opts.noAuth || identityAuth ? null : findAuthorizedKeysFile();
+  const authorizedKeys = authorizedKeysPath ? loadAuthorizedKeys(authorizedKeysPath) : null;
+  const authorizedKeyCount = authorizedKeys?.keys.length ?? 0;
+  if (opts.noPassword && authorizedKeyCount === 0) {
+    console.error("ERROR: --no-password requires at least one key in an authorized_keys file.");
+    console.error(`Looked in: ${AUTHORIZED_KEYS_PATHS.join(", ")}`);
+    for (const session of listSessions()) {
+      killTerminal(session, { keepSession: session.attached });
+    }
+    process.exit(1);
   }
 
   // Determine password
-  const password = opts.noAuth ? null : process.env.SUPERINTENT_REMOTE_PASSWORD || generatePassword();
+  const password =
+    opts.noAuth || opts.noPassword || identityAuth
+      ? null
+      : process.env.SUPERINTENT_REMOTE_PASSWORD || generatePassword();
+
+  // Separate read-only credential for teammates watching the session
+  const viewerPassword =
+    opts.viewer && !opts.noAuth && !identityAuth
+      ? process.env.SUPERINTENT_REMOTE_VIEWER_PASSWORD || generatePassword()
+      : null;
+
+  // Second factor for full access once `superintent-remote totp enroll` has stored a secret
+  const totpSecret = opts.noAuth ? null : loadTotpSecret();
+
+  // Only the tailnet (or the local subnets with --local) may reach the login prompt by default
+  const acl = createAcl(opts.allow ?? defaultAllow(opts), opts.deny ?? []);
 
   // Start SSH server
   sshServer = await startSSHServer({
-    port: opts.port,
-    host: opts.ip,
+    noAuth: opts.noAuth,
     password,
+    viewerPassword,
+    authorizedKeysPath,
+    totpSecret,
+    identify: !opts.local,
+    tailnetAllow,
+    sftp: opts.sftp ? { readOnly: opts.sftpReadOnly ?? false } : null,
+    forwardPorts: opts.forwardPorts ?? [],
+    macros: opts.macros ?? [],
+    maxConnections: opts.maxConnections,
+    idleTimeoutMs: opts.idleTimeoutMs,
+    acl,
   });
 
-  await writePid(`wrapper-${currentPort}`, process.pid);
+  // Browser terminal on the same addresses, protected by the same credentials
+  if (opts.web && opts.webPort) {
+    serveWeb = createWebServer({
+      port: opts.webPort,
+      noAuth: opts.noAuth,
+      password,
+      viewerPassword,
+      totpSecret,
+      identify: !opts.local,
+      tailnetAllow,
+      macros: opts.macros ?? [],
+      maxConnections: opts.maxConnections,
+      idleTimeoutMs: opts.idleTimeoutMs,
+      acl,
+    });
+  }
+
+  currentAddresses = opts.addresses;
+  await syncListeners(opts);
+  if (sshListeners.size === 0) {
+    console.error(
+      `ERROR: Could not listen on port ${opts.port} at ${opts.addresses.map((a) => a.address).join(", ")}.`,
+    );
+    for (const session of listSessions()) {
+      killTerminal(session, { keepSession: session.attached });
+    }
+    process.exit(1);
+  }
+
+  // State file for `list`, `status`, `stop` and `logs`
+  const startedAt = Date.now();
+
+  // Prometheus metrics and a health summary, on localhost only
+  if (opts.metricsPort) {
+    try {
+      metricsListener = startMetricsServer({
+        port: opts.metricsPort,
+        version: pkg.version,
+        startedAt,
+        sessions: () => Promise.all(listSessions().map((s) => sessionMetrics(s))),
+      });
+    } catch (err) {
+      log(`Cannot serve metrics on port ${opts.metricsPort}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  let lastState = "";
+  const refreshState = async () => {
+    const state: InstanceState = {
+      pid: process.pid,
+      port: opts.port,
+      addresses: currentAddresses.map((a) => a.address),
+      cwd,
+      version: pkg.version,
+      startedAt,
+      yolo: isYoloMode,
+      local: opts.local ?? false,
+      webUrl: currentAddresses[0] ? webUrlFor(currentAddresses[0].address, opts) : null,
+      logFile: instanceLogPath(opts.port),
+      sessions: listSessions().map((s) => ({
+        name: s.name,
+        cwd: s.cwd,
+        tmuxSession: s.tmuxSession,
+        attached: s.attached,
+        clients: s.clients.size,
+        readOnlyClients: [...s.clients.values()].filter((c) => c.readOnly).length,
+        running: s.proc?.exitCode === null,
+        health: s.health,
+        presence: listPresence(s),
+      })),
+    };
+    const json = JSON.stringify(state);
+    if (json === lastState) return;
+    lastState = json;
+    await writeState(state);
+  };
+  await refreshState();
+  // A failed write must not end the server as an unhandled rejection; the next tick retries
+  stateTimer = setInterval(() => {
+    refreshState().catch((err) => log(`Cannot write the state file: ${err instanceof Error ? err.message : err}`));
+  }, STATE_REFRESH_MS);
 
   console.log("");
   console.log(`Superintent Remote \x1b[90mv${pkg.version}\x1b[0m`);
@@ -191,31 +543,120 @@ export async function startServices(opts: StartOptions): Promise<void> {
   }
   console.log("");
   console.log(`Mode       ${isYoloMode ? "\x1b[31mYOLO\x1b[0m" : "Normal"}`);
-  console.log(`Project    ${process.cwd()}`);
-  console.log(`Tmux       ${currentSessionName}`);
-  console.log(`Connect    ssh user@${opts.ip} -p ${opts.port}`);
-  if (password) {
-    console.log(`Password   ${password}`);
-  } else {
-    console.log("Auth       disabled (--no-auth)");
+  const agent = opts.agent ?? DEFAULT_AGENT_SPEC;
+  const launch = agentCommandLine(agent, { yolo: false, restart: false });
+  const resumes = agentCommandLine(agent, { yolo: false, restart: true }) !== launch;
+  console.log(
+    `Agent      ${launch ?? "none (plain shell)"}${resumes ? " \x1b[90m(--continue after restarts)\x1b[0m" : ""}`,
+  );
+  console.log(
+    `Watchdog   up to ${maxRestarts} restarts \x1b[90m(backoff resets after ${formatDuration(stableUptimeMs)} healthy)\x1b[0m`,
+  );
+  if (opts.driverIdleMs) {
+    console.log(
+      `Driver     one client types at a time \x1b[90m(control lapses after ${formatDuration(opts.driverIdleMs)} idle)\x1b[0m`,
+    );
   }
-  if (!opts.noQr) {
-    const sshUri = `ssh://user@${opts.ip}:${opts.port}`;
-    const qr = await qrToTerminal(sshUri);
-    console.log("");
-    console.log("Scan to connect");
-    for (const line of qr.trimEnd().split("\n")) {
-      console.log(`  ${line}`);
+  if (opts.sftp) {
+    console.log(`SFTP       enabled${opts.sftpReadOnly ? " (read-only)" : ""}, jailed to each session's project`);
+  }
+  const allowed = acl.allow.map((rule) => rule.cidr);
+  console.log(
+    `Allow      ${allowed.length > 0 ? allowed.join(", ") : "any address"}${opts.local && !opts.allow ? " \x1b[90m(follows the LAN)\x1b[0m" : ""}`,
+  );
+  if (opts.deny?.length) {
+    console.log(`Deny       ${opts.deny.join(", ")}`);
+  }
+  if (opts.forwardPorts?.length) {
+    console.log(`Forward    localhost:${opts.forwardPorts.join(", ")} \x1b[90m(ssh -L <port>:localhost:<port>)\x1b[0m`);
+  }
+  if (metricsListener) {
+    console.log(
+      `Metrics    http://${metricsListener.address}:${opts.metricsPort}/metrics \x1b[90m(and /health)\x1b[0m`,
+    );
+  }
+  const macroCount = opts.macros?.length ?? 0;
+  console.log(
+    `Escapes    ~? at line start for help${macroCount > 0 ? ` (${macroCount} macro${macroCount === 1 ? "" : "s"})` : ""}`,
+  );
+  if (notifyConfig) {
+    console.log(`Notify     ${new URL(notifyConfig.url).host} (${[...notifyConfig.events].join(", ")})`);
+  }
+  if (record) {
+    console.log(`Record     ${LOG_DIR}/*.cast${record.input ? " (with input)" : ""}`);
+  }
+  if (opts.noAuth) {
+    console.log("Auth       disabled (--no-auth)");
+  } else {
+    if (authorizedKeysPath) {
+      console.log(`Keys       ${authorizedKeysPath} (${authorizedKeyCount} key${authorizedKeyCount === 1 ? "" : "s"})`);
+      for (const reason of authorizedKeys?.ignored ?? []) {
+        console.log(`           \x1b[33mignored ${reason}\x1b[0m`);
+      }
+    }
+    if (identityAuth) {
+      console.log(`Tailnet    ${tailnetAllow.join(", ")} \x1b[90m(identity replaces passwords and keys)\x1b[0m`);
+    } else if (password) {
+      console.log(`Password   ${password}`);
+    } else {
+      console.log("Password   disabled (--no-password)");
+    }
+    if (viewerPassword) {
+      console.log(`Viewer     ${viewerPassword} \x1b[90m(read-only)\x1b[0m`);
+    }
+    if (totpSecret) {
+      console.log("TOTP       required for full access \x1b[90m(viewers exempt)\x1b[0m");
     }
   }
+  // Fingerprints to compare against the client's prompt on first connection
+  const hostKeys = describeHostKeys();
+  hostKeys.current.forEach((key, i) => {
+    const retired = hostKeys.previous.find((p) => p.type === key.type);
+    const from = retired ? `, served from ${new Date(retired.expiresAt).toISOString().slice(0, 10)}` : "";
+    console.log(`${i === 0 ? "Host key  " : "          "} ${key.fingerprint} \x1b[90m(${key.type}${from})\x1b[0m`);
+  });
+  hostKeys.previous.forEach((key, i) => {
+    const until = new Date(key.expiresAt).toISOString().slice(0, 10);
+    console.log(
+      `${i === 0 ? "Previous  " : "          "} ${key.fingerprint} \x1b[90m(${key.type}, served until ${until})\x1b[0m`,
+    );
+  });
+  await printConnectInfo(opts);
   console.log("");
   console.log("\x1b[90mPress Ctrl+C to stop.\x1b[0m");
   console.log("");
+  audit({
+    type: "server.start",
+    pid: process.pid,
+    ip: currentAddresses.map((a) => a.address).join(", "),
+    port: opts.port,
+    version: pkg.version,
+  });
+
+  // Follow Wi-Fi changes and Tailscale reconnects
+  let checking = false;
+  addressTimer = setInterval(async () => {
+    if (checking || shutdownRequested) return;
+    checking = true;
+    try {
+      await checkAddresses(opts, acl);
+    } catch (err) {
+      log(`Address check failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      checking = false;
+    }
+  }, ADDRESS_CHECK_MS);
 
   // Signal handlers
-  process.on("SIGTERM", shutdown);
-  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", () => shutdown(false));
+  process.on("SIGINT", () => shutdown(true));
+  // `superintent-remote kick` leaves the connection IDs in a file, then signals
+  process.on("SIGUSR2", () => {
+    for (const conn of takeKickRequests(opts.port)) {
+      if (!kickClient(conn)) log(`Kick requested for unknown connection ${conn}`);
+    }
+  });
 
-  // Watchdog loop (blocks until shutdown)
-  await watchdog();
+  // Watchdog loops, one per session (block until shutdown)
+  await Promise.all(listSessions().map(watchdog));
 }
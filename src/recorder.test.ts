@@ -0,0 +1,60 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { recordInput, recordOutput, recordResize, startRecording, stopRecording } from "./recorder.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "superintent-remote-recorder-"));
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+async function lines(path: string): Promise<unknown[]> {
+  await Bun.sleep(20); // the writer flushes asynchronously after end()
+  return readFileSync(path, "utf-8")
+    .trimEnd()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("startRecording", () => {
+  test("creates a cast only the owner can read", () => {
+    const recorder = startRecording("private", { cols: 80, rows: 24 }, ["claude"], false, dir);
+    stopRecording(recorder);
+    expect(statSync(recorder.path).mode & 0o777).toBe(0o600);
+  });
+
+  test("writes an asciinema v2 header and events", async () => {
+    const recorder = startRecording("agent", { cols: 120, rows: 40 }, ["claude", "--resume"], true, dir);
+    const euro = new TextEncoder().encode("€");
+    recordOutput(recorder, euro.slice(0, 1)); // a character split across PTY chunks
+    recordOutput(recorder, euro.slice(1));
+    recordInput(recorder, "y");
+    recordResize(recorder, 100, 30);
+    stopRecording(recorder);
+
+    const [header, ...events] = await lines(recorder.path);
+    expect(header).toMatchObject({
+      version: 2,
+      width: 120,
+      height: 40,
+      command: "claude --resume",
+      title: "agent",
+      env: { TERM: "xterm-256color" },
+    });
+    expect(events.map((event) => (event as unknown[]).slice(1))).toEqual([
+      ["o", "€"],
+      ["i", "y"],
+      ["r", "100x30"],
+    ]);
+    for (const event of events) expect((event as unknown[])[0]).toBeNumber();
+  });
+
+  test("leaves out keystrokes unless input recording is on", async () => {
+    const recorder = startRecording("output-only", { cols: 80, rows: 24 }, ["claude"], false, dir);
+    recordInput(recorder, "secret");
+    recordOutput(recorder, new TextEncoder().encode("ok"));
+    stopRecording(recorder);
+    const events = (await lines(recorder.path)).slice(1);
+    expect(events.map((event) => (event as unknown[])[1])).toEqual(["o"]);
+  });
+});
@@ -0,0 +1,68 @@
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { FileSink } from "bun";
+import { LOG_DIR } from "./utils.ts";
+
+// asciinema v2 event codes: output, input, resize
+type CastEventType = "o" | "i" | "r";
+
+export interface Recorder {
+  path: string;
+  input: boolean; // record keystrokes as "i" events
+  startedAt: number;
+  writer: FileSink;
+  decoder: TextDecoder;
+}
+
+export function startRecording(
+  name: string,
+  size: { cols: number; rows: number },
+  command: string[],
+  input: boolean,
+  dir = LOG_DIR,
+): Recorder {
+  const startedAt = Date.now();
+  const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, "-");
+  const path = join(dir, `${name}-${stamp}.cast`);
+  // Casts hold everything shown on screen (and typed, with input recording) — owner-only, like the other secrets
+  writeFileSync(path, "", { mode: 0o600 });
+  const writer = Bun.file(path).writer();
+
+  const header = {
+    version: 2,
+    width: size.cols,
+    height: size.rows,
+    timestamp: Math.floor(startedAt / 1000),
+    command: command.join(" "),
+    title: name,
+    env: { TERM: "xterm-256color", SHELL: process.env.SHELL ?? "" },
+  };
+  writer.write(`${JSON.stringify(header)}\n`);
+  writer.flush();
+
+  return { path, input, startedAt, writer, decoder: new TextDecoder() };
+}
+
+function writeEvent(recorder: Recorder, type: CastEventType, data: string): void {
+  const elapsed = (Date.now() - recorder.startedAt) / 1000;
+  recorder.writer.write(`${JSON.stringify([Number(elapsed.toFixed(6)), type, data])}\n`);
+}
+
+export function recordOutput(recorder: Recorder, data: Uint8Array): void {
+  // Streaming decode so multi-byte characters split across PTY chunks stay intact
+  const text = recorder.decoder.decode(data, { stream: true });
+  if (text) writeEvent(recorder, "o", text);
+}
+
+export function recordInput(recorder: Recorder, data: string | Uint8Array): void {
+  if (!recorder.input) return;
+  writeEvent(recorder, "i", typeof data === "string" ? data : Buffer.from(data).toString());
+}
+
+export function recordResize(recorder: Recorder, cols: number, rows: number): void {
+  writeEvent(recorder, "r", `${cols}x${rows}`);
+}
+
+export function stopRecording(recorder: Recorder): void {
+  recorder.writer.end();
+}
@@ -0,0 +1,59 @@
+import type { TerminalSession } from "./terminal.ts";
+
+interface PickerStream {
+  write(data: string): void;
+  on(event: "data", listener: (data: Buffer) => void): unknown;
+  off(event: "data", listener: (data: Buffer) => void): unknown;
+}
+
+const CTRL_C = 0x03;
+const CTRL_D = 0x04;
+const BACKSPACE = 0x7f;
+
+/**
+ * Interactive session menu shown when the SSH username matches no session.
+ * Resolves with the chosen session, or null if the user aborts with Ctrl+C / Ctrl+D.
+ */
+export function pickSession(stream: PickerStream, sessions: TerminalSession[]): Promise<TerminalSession | null> {
+  const width = Math.max(...sessions.map((s) => s.name.length));
+  stream.write("\r\nSelect a session:\r\n\r\n");
+  sessions.forEach((s, i) => {
+    stream.write(`  ${i + 1}) ${s.name.padEnd(width)}  \x1b[90m${s.cwd}\x1b[0m\r\n`);
+  });
+  stream.write(`\r\nTip: connect as ${sessions[0].name}@host to skip this menu.\r\n\r\nChoice: `);
+
+  return new Promise((resolve) => {
+    let input = "";
+
+    const onData = (data: Buffer) => {
+      for (const byte of data) {
+        if (byte === CTRL_C || byte === CTRL_D) {
+          stream.off("data", onData);
+          stream.write("\r\n");
+          resolve(null);
+          return;
+        }
+
+        if (byte === 0x0d || byte === 0x0a) {
+          const choice = sessions[parseInt(input, 10) - 1];
+          if (choice) {
+            stream.off("data", onData);
+            stream.write("\r\n");
+            resolve(choice);
+            return;
+          }
+          input = "";
+          stream.write(`\r\nEnter a number between 1 and ${sessions.length}.\r\nChoice: `);
+        } else if (byte === BACKSPACE && input.length > 0) {
+          input = input.slice(0, -1);
+          stream.write("\b \b");
+        } else if (byte >= 0x30 && byte <= 0x39 && input.length < 3) {
+          input += String.fromCharCode(byte);
+          stream.write(String.fromCharCode(byte));
+        }
+      }
+    };
+
+    stream.on("data", onData);
+  });
+}
@@ -0,0 +1,137 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { EventEmitter } from "node:events";
+import { existsSync, mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type SFTPWrapper, utils } from "ssh2";
+import { resolveChecked, serveSftp, toJailPath, toVirtualPath } from "./sftp.ts";
+
+const { OPEN_MODE, STATUS_CODE } = utils.sftp;
+
+const base = realpathSync(mkdtempSync(join(tmpdir(), "superintent-remote-sftp-")));
+const root = join(base, "project");
+const outside = join(base, "outside");
+mkdirSync(join(root, "src"), { recursive: true });
+mkdirSync(outside);
+writeFileSync(join(root, "src", "a.ts"), "inside");
+writeFileSync(join(outside, "secret"), "outside");
+symlinkSync(join(root, "src", "a.ts"), join(root, "inside-link"));
+symlinkSync(join(outside, "secret"), join(root, "secret-link"));
+symlinkSync(outside, join(root, "outside-dir"));
+symlinkSync(join(outside, "created-through-link"), join(root, "dangling-link"));
+afterAll(() => rmSync(base, { recursive: true, force: true }));
+
+describe("toJailPath", () => {
+  test("maps the virtual root to the project directory", () => {
+    expect(toJailPath("/home/me/project", "/")).toBe("/home/me/project");
+    expect(toJailPath("/home/me/project", ".")).toBe("/home/me/project");
+  });
+
+  test("treats relative and absolute paths the same", () => {
+    expect(toJailPath("/home/me/project", "src/index.ts")).toBe("/home/me/project/src/index.ts");
+    expect(toJailPath("/home/me/project", "/src/index.ts")).toBe("/home/me/project/src/index.ts");
+  });
+
+  test("cannot climb above the project directory", () => {
+    expect(toJailPath("/home/me/project", "../../etc/passwd")).toBe("/home/me/project/etc/passwd");
+    expect(toJailPath("/home/me/project", "/src/../../..")).toBe("/home/me/project");
+  });
+});
+
+describe("toVirtualPath", () => {
+  test("maps real paths back under /", () => {
+    expect(toVirtualPath("/home/me/project", "/home/me/project")).toBe("/");
+    expect(toVirtualPath("/home/me/project", "/home/me/project/src/a.ts")).toBe("/src/a.ts");
+  });
+});
+
+describe("resolveChecked", () => {
+  test("follows symlinks that stay inside the project", async () => {
+    expect(await resolveChecked(root, "/inside-link")).toBe(join(root, "src", "a.ts"));
+    expect(await resolveChecked(root, "/src/new.ts")).toBe(join(root, "src", "new.ts"));
+  });
+
+  test("refuses symlinks that lead outside", async () => {
+    await expect(resolveChecked(root, "/secret-link")).rejects.toThrow("escapes the project directory");
+    await expect(resolveChecked(root, "/outside-dir/secret")).rejects.toThrow("escapes the project directory");
+    await expect(resolveChecked(root, "/outside-dir/new-file")).rejects.toThrow("escapes the project directory");
+  });
+
+  test("refuses a dangling symlink, so nothing is created where it points", async () => {
+    await expect(resolveChecked(root, "/dangling-link")).rejects.toThrow("Dangling symlink");
+  });
+
+  test("acts on the link itself when asked not to follow it", async () => {
+    expect(await resolveChecked(root, "/secret-link", { followLast: false })).toBe(join(root, "secret-link"));
+  });
+});
+
+// Stands in for the ssh2 SFTP stream: requests are emitted, replies are collected per request
+function fakeSftp(readOnly: boolean, onActivity: () => void = () => {}) {
+  const stream = new EventEmitter();
+  const pending = new Map<number, (reply: { status?: number; handle?: Buffer; data?: Buffer }) => void>();
+  Object.assign(stream, {
+    status: (reqId: number, status: number) => pending.get(reqId)?.({ status }),
+    handle: (reqId: number, handle: Buffer) => pending.get(reqId)?.({ handle }),
+    data: (reqId: number, data: Buffer) => pending.get(reqId)?.({ data }),
+    name: (reqId: number) => pending.get(reqId)?.({}),
+    attrs: (reqId: number) => pending.get(reqId)?.({}),
+  });
+  serveSftp(stream as unknown as SFTPWrapper, { root, readOnly, label: "test", onActivity });
+  let nextId = 1;
+  return (op: string, ...args: unknown[]) =>
+    new Promise<{ status?: number; handle?: Buffer; data?: Buffer }>((resolve) => {
+      const reqId = nextId++;
+      pending.set(reqId, resolve);
+      stream.emit(op, reqId, ...args);
+    });
+}
+
+describe("serveSftp", () => {
+  const WRITE_NEW = OPEN_MODE.WRITE | OPEN_MODE.CREAT | OPEN_MODE.TRUNC;
+
+  test("refuses every write when read-only", async () => {
+    const request = fakeSftp(true);
+    expect(await request("OPEN", "/src/new.ts", WRITE_NEW, {})).toEqual({ status: STATUS_CODE.PERMISSION_DENIED });
+    expect(await request("REMOVE", "/src/a.ts")).toEqual({ status: STATUS_CODE.PERMISSION_DENIED });
+    expect(await request("RENAME", "/src/a.ts", "/src/b.ts")).toEqual({ status: STATUS_CODE.PERMISSION_DENIED });
+    expect(await request("MKDIR", "/docs", {})).toEqual({ status: STATUS_CODE.PERMISSION_DENIED });
+    expect(existsSync(join(root, "src", "new.ts"))).toBe(false);
+    expect(existsSync(join(root, "src", "a.ts"))).toBe(true);
+    const { handle } = await request("OPEN", "/src/a.ts", OPEN_MODE.READ, {});
+    expect(handle).toBeDefined();
+    expect(await request("CLOSE", handle)).toEqual({ status: STATUS_CODE.OK });
+  });
+
+  test("never removes or renames the project directory", async () => {
+    const request = fakeSftp(false);
+    expect((await request("REMOVE", "/")).status).not.toBe(STATUS_CODE.OK);
+    expect(await request("RMDIR", "/src/..")).toEqual({ status: STATUS_CODE.PERMISSION_DENIED });
+    expect(await request("RENAME", "/", "/moved")).toEqual({ status: STATUS_CODE.PERMISSION_DENIED });
+    expect(existsSync(join(root, "src", "a.ts"))).toBe(true);
+  });
+
+  test("reports every request as activity", async () => {
+    let requests = 0;
+    const request = fakeSftp(true, () => requests++);
+    await request("STAT", "/src/a.ts");
+    await request("REALPATH", "/");
+    await request("REMOVE", "/src/a.ts");
+    expect(requests).toBe(3);
+  });
+
+  test("answers an oversized read with at most 256 KB", async () => {
+    writeFileSync(join(root, "large.bin"), Buffer.alloc(300 * 1024, 1));
+    const request = fakeSftp(true);
+    const { handle } = await request("OPEN", "/large.bin", OPEN_MODE.READ, {});
+    const { data } = await request("READ", handle, 0, 0xffffffff);
+    expect(data?.length).toBe(256 * 1024);
+    expect(await request("CLOSE", handle)).toEqual({ status: STATUS_CODE.OK });
+  });
+
+  test("does not create a file through a dangling symlink", async () => {
+    const request = fakeSftp(false);
+    expect(await request("OPEN", "/dangling-link", WRITE_NEW, {})).toEqual({ status: STATUS_CODE.PERMISSION_DENIED });
+    expect(existsSync(join(outside, "created-through-link"))).toBe(false);
+  });
+});
@@ -0,0 +1,431 @@
+import { constants, realpathSync, type Stats } from "node:fs";
+import {
+  chmod,
+  type FileHandle,
+  lstat,
+  mkdir,
+  open,
+  readdir,
+  readlink,
+  realpath,
+  rename,
+  rm,
+  rmdir,
+  stat,
+  truncate,
+  utimes,
+} from "node:fs/promises";
+import { basename, dirname, join, posix, relative, sep } from "node:path";
+import type { Attributes, FileEntry, SFTPWrapper } from "ssh2";
+import { utils } from "ssh2";
+import { log } from "./utils.ts";
+
+const { OPEN_MODE, STATUS_CODE } = utils.sftp;
+
+// Entries returned per READDIR response
+const READDIR_BATCH = 100;
+
+// Largest READ answered, as in OpenSSH; clients ask for up to 4 GB and read on from what they got
+const MAX_READ_LENGTH = 256 * 1024;
+
+// Every request type the server answers; each one counts as activity
+const REQUESTS = [
+  "REALPATH",
+  "STAT",
+  "LSTAT",
+  "OPEN",
+  "READ",
+  "WRITE",
+  "FSTAT",
+  "CLOSE",
+  "OPENDIR",
+  "READDIR",
+  "READLINK",
+  "SYMLINK",
+  "MKDIR",
+  "RMDIR",
+  "REMOVE",
+  "RENAME",
+  "SETSTAT",
+  "FSETSTAT",
+] as const;
+
+export interface SftpOptions {
+  root: string; // jail directory — the session's project directory
+  readOnly: boolean;
+  label: string; // identifies the connection in log lines
+  onActivity: () => void; // called on every request, so long transfers keep the connection alive
+}
+
+type OpenHandle =
+  | { kind: "file"; path: string; fh: FileHandle; bytesRead: number; bytesWritten: number }
+  | { kind: "dir"; path: string; entries: string[] | null };
+
+class JailError extends Error {
+  code = "EACCES";
+}
+
+/**
+ * Maps an SFTP path to a real path inside the jail. ".." is resolved lexically against
+ * the virtual root "/", so it can never climb above the jail directory.
+ */
+export function toJailPath(root: string, virtualPath: string): string {
+  const normalized = posix.normalize(`/${virtualPath}`);
+  return join(root, ...normalized.split("/").filter(Boolean));
+}
+
+export function toVirtualPath(root: string, realPath: string): string {
+  const rel = relative(root, realPath);
+  return rel ? `/${rel.split(sep).join("/")}` : "/";
+}
+
+function isInside(root: string, path: string): boolean {
+  return path === root || path.startsWith(root + sep);
+}
+
+/**
+ * Resolves symlinks and rejects paths that end up outside the jail. Paths that don't
+ * exist yet (new files, mkdir) are checked through their parent directory; a dangling
+ * symlink is refused, since creating the file would follow it wherever it points.
+ */
+export async function resolveChecked(
+  root: string,
+  virtualPath: string,
+  opts?: { followLast?: boolean },
+): Promise<string> {
+  const target = toJailPath(root, virtualPath);
+  let resolved: string;
+  if (opts?.followLast === false) {
+    // lstat/readlink/remove act on the link itself, so only its directory must be inside
+    resolved = join(await realpath(dirname(target)), basename(target));
+  } else {
+    try {
+      resolved = await realpath(target);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      resolved = join(await realpath(dirname(target)), basename(target));
+      const link = await lstat(resolved).catch(() => null);
+      if (link?.isSymbolicLink()) throw new JailError(`Dangling symlink: ${virtualPath}`);
+    }
+  }
+  if (!isInside(root, resolved)) {
+    throw new JailError(`Path escapes the project directory: ${virtualPath}`);
+  }
+  return resolved;
+}
+
+/** SFTP open flags as open(2) flags. O_NOFOLLOW keeps a link swapped in after the check from being followed. */
+function openFlags(flags: number): number {
+  const read = (flags & OPEN_MODE.READ) !== 0;
+  const write = (flags & (OPEN_MODE.WRITE | OPEN_MODE.APPEND)) !== 0;
+  let result = read && write ? constants.O_RDWR : write ? constants.O_WRONLY : constants.O_RDONLY;
+  if (flags & OPEN_MODE.APPEND) result |= constants.O_APPEND;
+  if (flags & OPEN_MODE.CREAT) result |= constants.O_CREAT;
+  if (flags & OPEN_MODE.TRUNC) result |= constants.O_TRUNC;
+  if (flags & OPEN_MODE.EXCL) result |= constants.O_EXCL;
+  return result | constants.O_NOFOLLOW;
+}
+
+function toAttrs(stats: Stats): Attributes {
+  return {
+    mode: stats.mode,
+    uid: stats.uid,
+    gid: stats.gid,
+    size: stats.size,
+    atime: Math.floor(stats.atimeMs / 1000),
+    mtime: Math.floor(stats.mtimeMs / 1000),
+  };
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// `ls -l` style line, shown by clients that don't format attrs themselves
+function longname(name: string, stats: Stats): string {
+  const type = stats.isDirectory() ? "d" : stats.isSymbolicLink() ? "l" : "-";
+  const perms = "rwxrwxrwx"
+    .split("")
+    .map((ch, i) => (stats.mode & (1 << (8 - i)) ? ch : "-"))
+    .join("");
+  const date = stats.mtime;
+  const when = `${MONTHS[date.getMonth()]} ${String(date.getDate()).padStart(2)} ${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+  return `${type}${perms} 1 ${stats.uid} ${stats.gid} ${String(stats.size).padStart(8)} ${when} ${name}`;
+}
+
+function statusFor(err: unknown): number {
+  const code = (err as NodeJS.ErrnoException).code;
+  if (code === "ENOENT" || code === "ENOTDIR") return STATUS_CODE.NO_SUCH_FILE;
+  if (code === "EACCES" || code === "EPERM") return STATUS_CODE.PERMISSION_DENIED;
+  return STATUS_CODE.FAILURE;
+}
+
+export function serveSftp(sftp: SFTPWrapper, opts: SftpOptions): void {
+  const root = realpathSync(opts.root);
+  const handles = new Map<number, OpenHandle>();
+  let nextHandle = 1;
+
+  for (const request of REQUESTS) {
+    sftp.on(request, () => opts.onActivity());
+  }
+
+  function logOp(message: string): void {
+    log(`SFTP ${opts.label}: ${message}`);
+  }
+
+  function newHandle(entry: OpenHandle): Buffer {
+    const id = nextHandle++;
+    handles.set(id, entry);
+    const buf = Buffer.alloc(4);
+    buf.writeUInt32BE(id);
+    return buf;
+  }
+
+  function getHandle(handle: Buffer): [number, OpenHandle | undefined] {
+    const id = handle.length === 4 ? handle.readUInt32BE(0) : -1;
+    return [id, handles.get(id)];
+  }
+
+  function fail(reqId: number, op: string, path: string, err: unknown): void {
+    const reason = err instanceof JailError ? "outside project" : ((err as NodeJS.ErrnoException).code ?? "error");
+    logOp(`${op} ${path} failed (${reason})`);
+    sftp.status(reqId, err instanceof JailError ? STATUS_CODE.PERMISSION_DENIED : statusFor(err));
+  }
+
+  // Wraps a write operation: denied in read-only mode, logged, errors mapped to SFTP status codes
+  function mutating(reqId: number, op: string, path: string, action: () => Promise<void>): void {
+    if (opts.readOnly) {
+      logOp(`${op} ${path} denied (read-only)`);
+      sftp.status(reqId, STATUS_CODE.PERMISSION_DENIED);
+      return;
+    }
+    action().then(
+      () => {
+        logOp(`${op} ${path}`);
+        sftp.status(reqId, STATUS_CODE.OK);
+      },
+      (err) => fail(reqId, op, path, err),
+    );
+  }
+
+  sftp.on("REALPATH", (reqId, path) => {
+    resolveChecked(root, path).then(
+      (resolved) => {
+        const virtual = toVirtualPath(root, resolved);
+        sftp.name(reqId, [{ filename: virtual, longname: virtual, attrs: {} as Attributes }]);
+      },
+      (err) => fail(reqId, "REALPATH", path, err),
+    );
+  });
+
+  for (const op of ["STAT", "LSTAT"] as const) {
+    sftp.on(op, (reqId: number, path: string) => {
+      resolveChecked(root, path, { followLast: op === "STAT" })
+        .then((resolved) => (op === "STAT" ? stat(resolved) : lstat(resolved)))
+        .then(
+          (stats) => sftp.attrs(reqId, toAttrs(stats)),
+          (err) => fail(reqId, op, path, err),
+        );
+    });
+  }
+
+  sftp.on("OPEN", (reqId, path, flags) => {
+    const writing = (flags & (OPEN_MODE.WRITE | OPEN_MODE.APPEND | OPEN_MODE.CREAT | OPEN_MODE.TRUNC)) !== 0;
+    const mode = utils.sftp.flagsToString(flags) ?? "r";
+    if (writing && opts.readOnly) {
+      logOp(`OPEN ${path} (${mode}) denied (read-only)`);
+      sftp.status(reqId, STATUS_CODE.PERMISSION_DENIED);
+      return;
+    }
+    resolveChecked(root, path)
+      .then((resolved) => open(resolved, openFlags(flags), 0o666))
+      .then(
+        (fh) => {
+          logOp(`OPEN ${path} (${mode})`);
+          sftp.handle(reqId, newHandle({ kind: "file", path, fh, bytesRead: 0, bytesWritten: 0 }));
+        },
+        (err) => fail(reqId, "OPEN", path, err),
+      );
+  });
+
+  sftp.on("READ", (reqId, handle, offset, len) => {
+    const [, entry] = getHandle(handle);
+    if (entry?.kind !== "file") return sftp.status(reqId, STATUS_CODE.FAILURE);
+    const buf = Buffer.alloc(Math.min(len, MAX_READ_LENGTH));
+    entry.fh.read(buf, 0, buf.length, offset).then(
+      ({ bytesRead }) => {
+        if (bytesRead === 0) return sftp.status(reqId, STATUS_CODE.EOF);
+        entry.bytesRead += bytesRead;
+        sftp.data(reqId, buf.subarray(0, bytesRead));
+      },
+      (err) => sftp.status(reqId, statusFor(err)),
+    );
+  });
+
+  sftp.on("WRITE", (reqId, handle, offset, data) => {
+    const [, entry] = getHandle(handle);
+    if (entry?.kind !== "file" || opts.readOnly) return sftp.status(reqId, STATUS_CODE.FAILURE);
+    entry.fh.write(data, 0, data.length, offset).then(
+      ({ bytesWritten }) => {
+        entry.bytesWritten += bytesWritten;
+        sftp.status(reqId, STATUS_CODE.OK);
+      },
+      (err) => sftp.status(reqId, statusFor(err)),
+    );
+  });
+
+  sftp.on("FSTAT", (reqId, handle) => {
+    const [, entry] = getHandle(handle);
+    if (entry?.kind !== "file") return sftp.status(reqId, STATUS_CODE.FAILURE);
+    entry.fh.stat().then(
+      (stats) => sftp.attrs(reqId, toAttrs(stats)),
+      (err) => sftp.status(reqId, statusFor(err)),
+    );
+  });
+
+  sftp.on("CLOSE", (reqId, handle) => {
+    const [id, entry] = getHandle(handle);
+    if (!entry) return sftp.status(reqId, STATUS_CODE.FAILURE);
+    handles.delete(id);
+    if (entry.kind === "dir") return sftp.status(reqId, STATUS_CODE.OK);
+    entry.fh.close().then(
+      () => {
+        logOp(`CLOSE ${entry.path} (read ${entry.bytesRead} B, wrote ${entry.bytesWritten} B)`);
+        sftp.status(reqId, STATUS_CODE.OK);
+      },
+      (err) => sftp.status(reqId, statusFor(err)),
+    );
+  });
+
+  sftp.on("OPENDIR", (reqId, path) => {
+    resolveChecked(root, path)
+      .then(async (resolved) => {
+        if (!(await stat(resolved)).isDirectory())
+          throw Object.assign(new Error("Not a directory"), { code: "ENOTDIR" });
+        return resolved;
+      })
+      .then(
+        (resolved) => {
+          logOp(`OPENDIR ${path}`);
+          sftp.handle(reqId, newHandle({ kind: "dir", path: resolved, entries: null }));
+        },
+        (err) => fail(reqId, "OPENDIR", path, err),
+      );
+  });
+
+  sftp.on("READDIR", (reqId, handle) => {
+    const [, entry] = getHandle(handle);
+    if (entry?.kind !== "dir") return sftp.status(reqId, STATUS_CODE.FAILURE);
+    (async () => {
+      entry.entries ??= await readdir(entry.path);
+      const batch = entry.entries.splice(0, READDIR_BATCH);
+      if (batch.length === 0) return null;
+      const names: FileEntry[] = [];
+      for (const filename of batch) {
+        try {
+          const stats = await lstat(join(entry.path, filename));
+          names.push({ filename, longname: longname(filename, stats), attrs: toAttrs(stats) });
+        } catch {
+          // Entry vanished between readdir and lstat
+        }
+      }
+      return names;
+    })().then(
+      (names) => (names ? sftp.name(reqId, names) : sftp.status(reqId, STATUS_CODE.EOF)),
+      (err) => sftp.status(reqId, statusFor(err)),
+    );
+  });
+
+  sftp.on("READLINK", (reqId, path) => {
+    resolveChecked(root, path, { followLast: false })
+      .then(async (resolved) => {
+        const target = await readlink(resolved);
+        // Only reveal targets that stay inside the jail, as virtual paths
+        const absolute = join(dirname(resolved), target);
+        const real = target.startsWith("/") ? target : absolute;
+        if (!isInside(root, real)) throw new JailError(`Link target escapes the project directory: ${path}`);
+        return toVirtualPath(root, real);
+      })
+      .then(
+        (virtual) => sftp.name(reqId, [{ filename: virtual, longname: virtual, attrs: {} as Attributes }]),
+        (err) => fail(reqId, "READLINK", path, err),
+      );
+  });
+
+  sftp.on("SYMLINK", (reqId, _targetPath, linkPath) => {
+    // Links could point anywhere on disk — never created through SFTP
+    logOp(`SYMLINK ${linkPath} denied`);
+    sftp.status(reqId, STATUS_CODE.OP_UNSUPPORTED);
+  });
+
+  sftp.on("MKDIR", (reqId, path) => {
+    mutating(reqId, "MKDIR", path, async () => {
+      await mkdir(await resolveChecked(root, path));
+    });
+  });
+
+  sftp.on("RMDIR", (reqId, path) => {
+    mutating(reqId, "RMDIR", path, async () => {
+      const resolved = await resolveChecked(root, path, { followLast: false });
+      if (resolved === root) throw new JailError("Cannot remove the project directory");
+      await rmdir(resolved);
+    });
+  });
+
+  sftp.on("REMOVE", (reqId, path) => {
+    mutating(reqId, "REMOVE", path, async () => {
+      const resolved = await resolveChecked(root, path, { followLast: false });
+      if ((await lstat(resolved)).isDirectory()) throw Object.assign(new Error("Is a directory"), { code: "EISDIR" });
+      await rm(resolved);
+    });
+  });
+
+  sftp.on("RENAME", (reqId, oldPath, newPath) => {
+    mutating(reqId, "RENAME", `${oldPath} -> ${newPath}`, async () => {
+      const from = await resolveChecked(root, oldPath, { followLast: false });
+      const to = await resolveChecked(root, newPath, { followLast: false });
+      if (from === root) throw new JailError("Cannot rename the project directory");
+      await rename(from, to);
+    });
+  });
+
+  sftp.on("SETSTAT", (reqId, path, attrs) => {
+    mutating(reqId, "SETSTAT", path, async () => {
+      const resolved = await resolveChecked(root, path);
+      await applyAttrs(
+        {
+          truncate: (size) => truncate(resolved, size),
+          chmod: (mode) => chmod(resolved, mode),
+          utimes: (atime, mtime) => utimes(resolved, atime, mtime),
+        },
+        attrs,
+      );
+    });
+  });
+
+  sftp.on("FSETSTAT", (reqId, handle, attrs) => {
+    const [, entry] = getHandle(handle);
+    if (entry?.kind !== "file") return sftp.status(reqId, STATUS_CODE.FAILURE);
+    mutating(reqId, "FSETSTAT", entry.path, () => applyAttrs(entry.fh, attrs));
+  });
+
+  sftp.on("close", () => {
+    for (const entry of handles.values()) {
+      if (entry.kind === "file") void entry.fh.close().catch(() => {});
+    }
+    handles.clear();
+  });
+}
+
+interface AttrTarget {
+  truncate(size: number): Promise<void>;
+  chmod(mode: number): Promise<void>;
+  utimes(atime: number, mtime: number): Promise<void>;
+}
+
+// Ownership changes are ignored — the server runs as the local user
+async function applyAttrs(target: AttrTarget, attrs: Partial<Attributes>): Promise<void> {
+  if (typeof attrs.size === "number") await target.truncate(attrs.size);
+  if (typeof attrs.mode === "number") await target.chmod(attrs.mode & 0o7777);
+  if (typeof attrs.atime === "number" && typeof attrs.mtime === "number") {
+    await target.utimes(attrs.atime, attrs.mtime);
+  }
+}
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { type AddressInfo, connect } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client, type Server } from "ssh2";
+import { isLockedOut, loadAuthState } from "./auth.ts";
+import { createAcl } from "./network-acl.ts";
+import { startSSHServer } from "./ssh-server.ts";
+import { generateTotpSecret, totpCode } from "./totp.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "superintent-remote-ssh-"));
+const PASSWORD = "correct horse";
+const secret = generateTotpSecret();
+const servers: Server[] = [];
+let port = 0;
+
+async function listen(options: Partial<Parameters<typeof startSSHServer>[0]>): Promise<number> {
+  const server = await startSSHServer({
+    noAuth: false,
+    password: PASSWORD,
+    viewerPassword: null,
+    authorizedKeysPath: null,
+    totpSecret: secret,
+    identify: false,
+    tailnetAllow: [],
+    sftp: null,
+    forwardPorts: [],
+    macros: [],
+    acl: createAcl([], []),
+    hostKeyDir: join(dir, "keys"),
+    ...options,
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+beforeAll(async () => {
+  loadAuthState(join(dir, "auth-state.json"));
+  port = await listen({});
+});
+
+afterAll(() => {
+  for (const server of servers) server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function wrongCode(): string {
+  return String((Number(totpCode(secret)) + 500_000) % 1_000_000).padStart(6, "0");
+}
+
+/** One connection: the password, then one TOTP guess. Resolves whether the password got it to the code step. */
+function guessCode(code: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+    let step = 0;
+    let reachedCode = false;
+    client.on("error", () => {});
+    client.on("close", () => resolve(reachedCode));
+    client.connect({
+      host: "127.0.0.1",
+      port,
+      username: "agent",
+      authHandler: (_methods, partialSuccess, next) => {
+        step++;
+        if (step === 1) return next({ type: "password", username: "agent", password: PASSWORD });
+        if (step === 2 && partialSuccess) {
+          reachedCode = true;
+          return next({
+            type: "keyboard-interactive",
+            username: "agent",
+            prompt: (_name, _instructions, _lang, _prompts, finish) => finish([code]),
+          });
+        }
+        client.end();
+      },
+    });
+    setTimeout(() => reject(new Error("connection did not finish")), 10_000);
+  });
+}
+
+describe("TOTP step", () => {
+  test("wrong codes lock the address out even though the password is right on every reconnect", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await guessCode(wrongCode())).toBe(true);
+    }
+    expect(isLockedOut("127.0.0.1")).toBe(true);
+    // Locked out: the password no longer leads to the code prompt
+    expect(await guessCode(wrongCode())).toBe(false);
+  }, 30_000);
+});
+
+/** Connects without credentials (the server runs with noAuth). Resolves the client once it is in, null when refused. */
+function login(target: number): Promise<Client | null> {
+  return new Promise((resolve) => {
+    const client = new Client();
+    client.on("ready", () => resolve(client));
+    client.on("error", () => {});
+    client.on("close", () => resolve(null));
+    client.connect({ host: "127.0.0.1", port: target, username: "agent" });
+  });
+}
+
+/** Sends a version line and then a broken packet, which makes ssh2 emit "error" and then "close". */
+function sendGarbage(target: number): Promise<void> {
+  return new Promise((resolve) => {
+    const socket = connect(target, "127.0.0.1", () =>
+      socket.write(Buffer.concat([Buffer.from("SSH-2.0-test\r\n"), Buffer.alloc(64, 0xff)])),
+    );
+    socket.resume(); // the server's replies must be read for "close" to arrive
+    socket.on("error", () => {});
+    socket.on("close", () => resolve());
+  });
+}
+
+describe("connection limit", () => {
+  test("a connection that fails with an error is only counted out once", async () => {
+    const limited = await listen({ noAuth: true, totpSecret: null, maxConnections: 1 });
+    await sendGarbage(limited);
+    const first = await login(limited);
+    expect(first).not.toBeNull();
+    expect(await login(limited)).toBeNull();
+    first?.end();
+  });
+});
@@ -1,82 +1,95 @@
-import { timingSafeEqual } from "node:crypto";
-import type { AuthContext, Connection, Session } from "ssh2";
+import { randomBytes } from "node:crypto";
+import { createServer, type Socket } from "node:net";
+import { StringDecoder } from "node:string_decoder";
+import type { AuthContext, ClientInfo, Connection, Session } from "ssh2";
 import { Server } from "ssh2";
-import { getHostKey } from "./host-keys.ts";
-import { addClient, removeClient, resizeTerminal, type TerminalClient, writeToTerminal } from "./terminal.ts";
+import { audit } from "./audit.ts";
+import { clearAuthFailures, isLockedOut, passwordMatches, recordAuthFailure } from "./auth.ts";
+import { findAuthorizedKey, type KeyOptions, loadAuthorizedKeys } from "./authorized-keys.ts";
+import type { Listener } from "./bind-addresses.ts";
+import { runExecCommand } from "./exec-commands.ts";
+import { getHostKeys } from "./host-keys.ts";
+import { answerLocal, createEscapeState, type Macro, processInput } from "./input-escapes.ts";
+import { aclRefusal, type NetworkAcl } from "./network-acl.ts";
+import { forwardRefusal, pipeForward } from "./port-forward.ts";
+import { pickSession } from "./session-picker.ts";
+import { serveSftp } from "./sftp.ts";
+import { formatIdentity, matchTailnetRule, type TailnetIdentity, whois } from "./tailnet-identity.ts";
+import {
+  addClient,
+  getSession,
+  listSessions,
+  removeClient,
+  resizeClient,
+  type TerminalClient,
+  type TerminalSession,
+  writeToTerminal,
+} from "./terminal.ts";
+import { verifyTotp } from "./totp.ts";
+import { log } from "./utils.ts";
 
 interface SSHServerOptions {
-  port: number;
-  host: string;
-  password: string | null; // null = no auth
+  noAuth: boolean;
+  password: string | null; // null = password auth disabled
+  viewerPassword: string | null; // null = no viewer credential
+  authorizedKeysPath: string | null; // null = public key auth disabled
+  totpSecret: string | null; // null = no second factor
+  identify: boolean; // look up each peer with `tailscale whois` and log who it is
+  tailnetAllow: string[]; // non-empty = authenticate by tailnet identity instead of a password or key
+  sftp: { readOnly: boolean } | null; // null = SFTP subsystem disabled
+  forwardPorts: number[]; // loopback ports reachable with `ssh -L` (empty = forwarding disabled)
+  macros: Macro[]; // `~<key>` input shortcuts
+  acl: NetworkAcl; // checked before authentication
   maxConnections?: number;
   idleTimeoutMs?: number;
+  hostKeyDir?: string; // defaults to the cache directory
 }
 
-const MAX_AUTH_FAILURES = 5;
-const AUTH_LOCKOUT_MS = 60_000; // 1 minute lockout after max failures
-const DEFAULT_MAX_CONNECTIONS = 10;
-const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+export const DEFAULT_MAX_CONNECTIONS = 10;
+export const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
 
-function log(message: string): void {
-  console.log(`[${new Date().toISOString()}] ${message}`);
-}
-
-// Per-IP auth failure tracking
-const authFailures = new Map<string, { count: number; lockedUntil: number }>();
-
-function recordAuthFailure(ip: string): boolean {
-  const now = Date.now();
-  const record = authFailures.get(ip) ?? { count: 0, lockedUntil: 0 };
-
-  // Reset if lockout expired
-  if (now > record.lockedUntil && record.lockedUntil > 0) {
-    record.count = 0;
-    record.lockedUntil = 0;
-  }
+// Connecting as this user is always read-only, whatever the credential
+const VIEWER_USERNAME = "viewer";
 
-  record.count++;
-  if (record.count >= MAX_AUTH_FAILURES) {
-    record.lockedUntil = now + AUTH_LOCKOUT_MS;
-    authFailures.set(ip, record);
-    return true; // locked out
-  }
-
-  authFailures.set(ip, record);
-  return false;
-}
-
-function isLockedOut(ip: string): boolean {
-  const record = authFailures.get(ip);
-  if (!record) return false;
-  if (Date.now() > record.lockedUntil && record.lockedUntil > 0) {
-    authFailures.delete(ip);
-    return false;
-  }
-  return record.count >= MAX_AUTH_FAILURES;
-}
-
-function clearAuthFailures(ip: string): void {
-  authFailures.delete(ip);
-}
+const PIN_ENV_VAR = "SUPERINTENT_REMOTE_PIN";
 
+/** Creates the SSH server; it accepts connections from the listeners opened with listenSSH. */
 export async function startSSHServer(opts: SSHServerOptions): Promise<Server> {
-  const hostKey = await getHostKey();
+  const hostKeys = getHostKeys(opts.hostKeyDir);
   const maxConnections = opts.maxConnections ?? DEFAULT_MAX_CONNECTIONS;
   const idleTimeoutMs = opts.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
   let activeConnections = 0;
 
-  const server = new Server({ hostKeys: [hostKey] }, (client: Connection) => {
+  const server = new Server({ hostKeys }, (client: Connection, info: ClientInfo) => {
     // biome-ignore lint/suspicious/noExplicitAny: ssh2 does not expose socket type
-    const clientIp = (client as any)._sock?.remoteAddress ?? "unknown";
+    const socket: Socket | undefined = (client as any)._sock;
+    const clientIp = socket?.remoteAddress ?? "unknown";
+    const conn = randomBytes(4).toString("hex");
+    const openedAt = Date.now();
+
+    // Address allow/deny lists — dropped before key exchange, so no credentials are ever read
+    const refusal = aclRefusal(opts.acl, clientIp);
+    if (refusal) {
+      audit({ type: "connection.reject", transport: "ssh", ip: clientIp, reason: refusal });
+      client.end();
+      return;
+    }
 
     // Max connection limit
     if (activeConnections >= maxConnections) {
-      log(`Connection rejected (limit ${maxConnections}): ${clientIp}`);
+      audit({ type: "connection.reject", transport: "ssh", ip: clientIp, reason: `limit ${maxConnections}` });
       client.end();
       return;
     }
     activeConnections++;
-    log(`Connection opened: ${clientIp} (${activeConnections} active)`);
+    audit({
+      type: "connection.open",
+      conn,
+      transport: "ssh",
+      ip: clientIp,
+      client: info.header?.identRaw ?? null,
+      active: activeConnections,
+    });
 
     // Idle timeout — reset on any data activity
     let idleTimer: ReturnType<typeof setTimeout> | null = null;
@@ -84,110 +97,355 @@ export async function startSSHServer(opts: SSHServerOptions): Promise<Server> {
     function resetIdleTimer() {
       if (idleTimer) clearTimeout(idleTimer);
       idleTimer = setTimeout(() => {
-        log(`Idle timeout: ${clientIp} (${idleTimeoutMs / 1000}s)`);
+        audit({ type: "connection.idle", conn, ip: clientIp, timeoutMs: idleTimeoutMs });
         client.end();
       }, idleTimeoutMs);
     }
 
     resetIdleTimer();
 
-    const expectedPassword = opts.password;
+    // Tailscale mode: who is behind the address, logged once and used by identity auth
+    const identity: Promise<TailnetIdentity | null> = opts.identify ? whois(clientIp) : Promise.resolve(null);
+    if (opts.identify) {
+      void identity.then((id) =>
+        audit({
+          type: "connection.identity",
+          conn,
+          transport: "ssh",
+          ip: clientIp,
+          user: id?.user ?? null,
+          node: id?.node ?? null,
+          tags: id?.tags ?? [],
+        }),
+      );
+    }
+
+    let username = "";
+    let readOnly = false;
+    const identityAuth = opts.tailnetAllow.length > 0;
+    const authMethods: AuthContext["method"][] = [];
+    if (opts.authorizedKeysPath && !identityAuth) authMethods.push("publickey");
+    if ((opts.password !== null || opts.viewerPassword !== null) && !identityAuth) authMethods.push("password");
+
+    // Set once the password or key was accepted but a TOTP code is still owed
+    let firstFactor: { method: string; key: string | null } | null = null;
+    // How the connection got in, shown by `who`
+    let accepted: { method: string; key: string | null } = { method: "none", key: null };
+    // Limits from the authorized_keys line of the key that was used
+    let keyOptions: KeyOptions | null = null;
 
     client.on("authentication", (ctx: AuthContext) => {
+      username = ctx.username;
+      readOnly = username === VIEWER_USERNAME;
+
       // No auth mode
-      if (expectedPassword === null) {
-        log(`Auth accepted (no-auth mode): ${clientIp}`);
+      const authEvent = { conn, transport: "ssh", ip: clientIp, user: username } as const;
+      if (opts.noAuth) {
+        audit({ type: "auth.accept", ...authEvent, method: "none", readOnly, key: null });
         ctx.accept();
         return;
       }
 
       // Rate limiting — reject if locked out
       if (isLockedOut(clientIp)) {
-        log(`Auth rejected (locked out): ${clientIp}`);
-        ctx.reject(["password"]);
+        audit({ type: "auth.locked", ...authEvent });
+        ctx.reject(authMethods);
         return;
       }
 
-      if (ctx.method === "password") {
-        const input = Buffer.from(ctx.password);
-        const expected = Buffer.from(expectedPassword);
-        if (input.length === expected.length && timingSafeEqual(input, expected)) {
-          clearAuthFailures(clientIp);
-          log(`Auth accepted: ${clientIp}`);
-          ctx.accept();
+      // Full access: ask for a code as a second step. Viewers are exempt. Failures are only
+      // cleared once the connection is fully in, so code guesses add up across reconnects.
+      const acceptFirstFactor = (method: string, key: string | null) => {
+        if (opts.totpSecret && !readOnly) {
+          firstFactor = { method, key };
+          ctx.reject(["keyboard-interactive"], true);
+          return;
+        }
+        clearAuthFailures(clientIp);
+        audit({ type: "auth.accept", ...authEvent, method, readOnly, key });
+        accepted = { method, key };
+        ctx.accept();
+      };
+
+      if (identityAuth && !(ctx.method === "keyboard-interactive" && firstFactor)) {
+        // Whatever method the client tries first, the answer depends only on who it is
+        void identity.then((id) => {
+          if (id && matchTailnetRule(id, opts.tailnetAllow)) {
+            acceptFirstFactor("tailscale", null);
+          } else {
+            // Not a guess that lockouts could slow down, so it is not counted as one
+            audit({ type: "auth.fail", ...authEvent, method: "tailscale", lockoutMs: null, global: false });
+            ctx.reject([]);
+          }
+        });
+      } else if (ctx.method === "keyboard-interactive" && firstFactor && opts.totpSecret) {
+        const { method, key } = firstFactor;
+        const secret = opts.totpSecret;
+        ctx.prompt([{ prompt: "Verification code: ", echo: false }], (answers) => {
+          if (verifyTotp(secret, answers[0] ?? "")) {
+            clearAuthFailures(clientIp);
+            audit({ type: "auth.accept", ...authEvent, method: `${method}+totp`, readOnly, key });
+            accepted = { method: `${method}+totp`, key };
+            ctx.accept();
+          } else {
+            audit({ type: "auth.fail", ...authEvent, method: "totp", ...recordAuthFailure(clientIp) });
+            ctx.reject(["keyboard-interactive"], true);
+          }
+        });
+      } else if (ctx.method === "publickey" && opts.authorizedKeysPath) {
+        // Re-read on every attempt so keys can be added without a restart. A key whose
+        // `from` option excludes this address is treated as unknown.
+        const authorized = findAuthorizedKey(loadAuthorizedKeys(opts.authorizedKeysPath).keys, ctx.key, clientIp);
+
+        // Key query without signature — tell the client whether to sign with it.
+        // Unknown keys offered this way are not failures: agents often offer several.
+        if (!ctx.signature) {
+          if (authorized) ctx.accept();
+          else ctx.reject(authMethods);
+          return;
+        }
+
+        if (authorized && ctx.blob && authorized.key.verify(ctx.blob, ctx.signature, ctx.hashAlgo)) {
+          keyOptions = authorized.options;
+          acceptFirstFactor("publickey", authorized.key.comment || null);
+        } else {
+          audit({ type: "auth.fail", ...authEvent, method: "publickey", ...recordAuthFailure(clientIp) });
+          ctx.reject(authMethods);
+        }
+      } else if (ctx.method === "password") {
+        if (passwordMatches(ctx.password, opts.password)) {
+          acceptFirstFactor("password", null);
+        } else if (passwordMatches(ctx.password, opts.viewerPassword)) {
+          readOnly = true;
+          acceptFirstFactor("password", null);
         } else {
-          const locked = recordAuthFailure(clientIp);
-          log(`Auth failed: ${clientIp}${locked ? ` (locked out for ${AUTH_LOCKOUT_MS / 1000}s)` : ""}`);
-          ctx.reject(["password"]);
+          audit({ type: "auth.fail", ...authEvent, method: "password", ...recordAuthFailure(clientIp) });
+          ctx.reject(authMethods);
         }
       } else {
-        ctx.reject(["password"]);
+        ctx.reject(authMethods);
       }
     });
 
+    // Local port forwarding (`ssh -L`) to allowlisted loopback ports only
+    const forwards = new Set<Socket>();
+    client.on("tcpip", (accept, reject, info) => {
+      const target = `${info.destIP}:${info.destPort}`;
+      const refusal = readOnly
+        ? "read-only connection"
+        : keyOptions?.portForwarding === false
+          ? "key does not allow forwarding"
+          : forwardRefusal(info, opts.forwardPorts);
+      if (refusal) {
+        log(`Forward rejected (${refusal}): ${clientIp} -> ${target}`);
+        reject();
+        return;
+      }
+      resetIdleTimer();
+      const socket = pipeForward(accept(), info, { label: clientIp, onActivity: resetIdleTimer });
+      forwards.add(socket);
+      socket.on("close", () => forwards.delete(socket));
+    });
+
     client.on("ready", () => {
       client.on("session", (accept: () => Session) => {
         const session = accept();
-        let _channel: TerminalClient | null = null;
-
-        session.on("pty", (accept) => {
+        let termSession: TerminalSession | null = null;
+        let termClient: TerminalClient | null = null;
+        let ptySize: { cols: number; rows: number } | null = null;
+        let pinned = false;
+
+        session.on("pty", (accept, reject, info) => {
+          if (keyOptions?.pty === false) {
+            reject?.();
+            return;
+          }
           accept?.();
+          ptySize = { cols: info.cols, rows: info.rows };
+        });
+
+        // `ssh -o SetEnv=SUPERINTENT_REMOTE_PIN=1` pins the terminal size to this client
+        session.on("env", (accept, reject, info) => {
+          if (info.key === PIN_ENV_VAR) {
+            pinned = info.val === "1" || info.val === "true";
+            accept?.();
+          } else {
+            reject?.();
+          }
         });
 
-        session.on("shell", (accept) => {
+        session.on("shell", async (accept) => {
           const stream = accept();
+          if (keyOptions?.pty === false) {
+            log(`Shell rejected (key does not allow a terminal): ${clientIp}`);
+            stream.stderr.write("This key may not open the terminal (no-pty or restrict in authorized_keys).\r\n");
+            stream.exit(1);
+            stream.end();
+            return;
+          }
+
+          // Route by SSH username; fall back to the only session or an interactive picker
+          const sessions = listSessions();
+          let target = getSession(username) ?? (sessions.length === 1 ? sessions[0] : null);
+          if (!target) {
+            target = await pickSession(stream, sessions);
+            if (!target) {
+              stream.end();
+              return;
+            }
+          }
+          const tailnetId = await identity;
+          if (stream.destroyed) return;
+          const attached = target;
+          termSession = attached;
+          audit({ type: "session.attach", conn, transport: "ssh", ip: clientIp, session: attached.name, readOnly });
 
           // Wrap the SSH stream as a TerminalClient
-          const termClient: TerminalClient = {
+          const terminalClient: TerminalClient = {
             write(data: Buffer | Uint8Array | string) {
               if (!stream.destroyed) {
                 stream.write(data);
               }
             },
+            close() {
+              client.end();
+            },
           };
-          _channel = termClient;
-
-          addClient(termClient);
+          termClient = terminalClient;
+
+          if (readOnly) {
+            stream.write(`\x1b[90m[read-only] Watching ${attached.name} — your input is ignored.\x1b[0m\r\n`);
+          }
+
+          addClient(attached, terminalClient, {
+            size: ptySize,
+            readOnly,
+            pinned,
+            presence: {
+              conn,
+              transport: "ssh",
+              ip: clientIp,
+              identity: tailnetId ? formatIdentity(tailnetId) : accepted.key,
+              auth: accepted.method,
+              software: info.header?.identRaw ?? null,
+              connectedAt: openedAt,
+            },
+          });
 
-          // Pipe SSH input to PTY — reset idle timer on activity
+          // Pipe SSH input to PTY through the `~` escapes — reset idle timer on activity
+          const escapes = createEscapeState();
+          const decoder = new StringDecoder("utf8"); // keeps multi-byte characters split across packets intact
           stream.on("data", (data: Buffer) => {
             resetIdleTimer();
-            writeToTerminal(data);
+            const { input, local } = processInput(escapes, decoder.write(data), opts.macros);
+            for (const command of local) {
+              const reply = answerLocal(command, attached, terminalClient, opts.macros);
+              if (reply) terminalClient.write(reply);
+            }
+            if (input && !readOnly) writeToTerminal(attached, input, terminalClient);
           });
 
           stream.on("close", () => {
-            removeClient(termClient);
-            _channel = null;
+            removeClient(attached, terminalClient);
+            termSession = null;
+            termClient = null;
           });
 
           stream.on("error", () => {
-            removeClient(termClient);
-            _channel = null;
+            removeClient(attached, terminalClient);
+            termSession = null;
+            termClient = null;
+          });
+        });
+
+        // `ssh host <command>` — scripted check-ins without an interactive terminal
+        session.on("exec", (accept, _reject, info) => {
+          const stream = accept();
+          const sessions = listSessions();
+          const target = getSession(username) ?? (sessions.length === 1 ? sessions[0] : null);
+          void runExecCommand(info.command, { session: target, sessions, readOnly }).then((result) => {
+            log(
+              `Exec${readOnly ? " (read-only)" : ""}: ${clientIp} -> ${target?.name ?? "?"}: ${info.command} (exit ${result.exitCode})`,
+            );
+            resetIdleTimer();
+            if (result.stdout) stream.write(result.stdout);
+            if (result.stderr) stream.stderr.write(result.stderr);
+            stream.exit(result.exitCode);
+            stream.end();
+          });
+        });
+
+        // SFTP jailed to the session's project directory. Viewers may watch the terminal, not
+        // download the project, so they get no SFTP at all.
+        session.on("sftp", (accept, reject) => {
+          const sessions = listSessions();
+          const target = getSession(username) ?? (sessions.length === 1 ? sessions[0] : null);
+          if (!opts.sftp || readOnly || !target) {
+            const reason = !opts.sftp ? "disabled" : readOnly ? "read-only connection" : "no matching session";
+            log(`SFTP rejected (${reason}): ${clientIp}`);
+            reject?.();
+            return;
+          }
+          log(`SFTP opened${opts.sftp.readOnly ? " (read-only)" : ""}: ${clientIp} -> ${target.name} (${target.cwd})`);
+          resetIdleTimer();
+          serveSftp(accept(), {
+            root: target.cwd,
+            readOnly: opts.sftp.readOnly,
+            label: `${clientIp} -> ${target.name}`,
+            onActivity: resetIdleTimer,
           });
         });
 
         session.on("window-change", (accept, _reject, info) => {
           accept?.();
-          resizeTerminal(info.cols, info.rows);
+          ptySize = { cols: info.cols, rows: info.rows };
+          if (termSession && termClient) resizeClient(termSession, termClient, info.cols, info.rows);
         });
       });
     });
 
-    client.on("close", () => {
+    // ssh2 emits "error" and then "close" for a failed connection; it must only be counted once
+    let released = false;
+    function release() {
+      if (released) return;
+      released = true;
       if (idleTimer) clearTimeout(idleTimer);
+      for (const socket of forwards) socket.destroy();
       activeConnections--;
-      log(`Connection closed: ${clientIp} (${activeConnections} active)`);
-    });
+    }
 
-    client.on("error", () => {
-      if (idleTimer) clearTimeout(idleTimer);
-      activeConnections--;
+    client.on("close", () => {
+      release();
+      audit({
+        type: "connection.close",
+        conn,
+        transport: "ssh",
+        ip: clientIp,
+        durationMs: Date.now() - openedAt,
+        bytesIn: socket?.bytesRead ?? 0,
+        bytesOut: socket?.bytesWritten ?? 0,
+        active: activeConnections,
+      });
     });
-  });
 
-  server.listen(opts.port, opts.host, () => {
-    // Server is listening
+    client.on("error", release);
   });
 
   return server;
 }
+
+/**
+ * Accepts SSH connections on one address and hands them to the server. Closing the
+ * listener leaves established connections running.
+ */
+export function listenSSH(server: Server, port: number, host: string): Promise<Listener> {
+  const tcp = createServer((socket) => server.injectSocket(socket));
+  return new Promise((resolve, reject) => {
+    tcp.once("error", reject);
+    tcp.listen(port, host, () => {
+      tcp.off("error", reject);
+      tcp.on("error", (err) => log(`SSH listener on ${host} failed: ${err.message}`));
+      resolve({ address: host, close: (onClosed) => tcp.close(() => onClosed?.()) });
+    });
+  });
+}
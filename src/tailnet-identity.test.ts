@@ -0,0 +1,109 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatIdentity, matchTailnetRule, parseTailnetRule, parseWhois, whois } from "./tailnet-identity.ts";
+
+const phone = JSON.stringify({
+  Node: { Name: "alice-phone.tail1234.ts.net.", ComputedName: "alice-phone", Addresses: ["100.101.102.103/32"] },
+  UserProfile: { LoginName: "alice@example.com", DisplayName: "Alice" },
+});
+const ciBox = JSON.stringify({
+  Node: { Name: "build-box.tail1234.ts.net.", Tags: ["tag:ci"] },
+  UserProfile: { LoginName: "tagged-devices" },
+});
+
+describe("parseWhois", () => {
+  test("reads the user and the short machine name", () => {
+    expect(parseWhois(phone)).toEqual({
+      user: "alice@example.com",
+      node: "alice-phone",
+      fqdn: "alice-phone.tail1234.ts.net",
+      tags: [],
+    });
+  });
+
+  test("reports tagged devices without a user", () => {
+    expect(parseWhois(ciBox)).toEqual({
+      user: null,
+      node: "build-box",
+      fqdn: "build-box.tail1234.ts.net",
+      tags: ["tag:ci"],
+    });
+  });
+
+  test("returns null for output without a node", () => {
+    expect(parseWhois("not json")).toBeNull();
+    expect(parseWhois("{}")).toBeNull();
+  });
+});
+
+describe("parseTailnetRule", () => {
+  test("accepts users, tags and full machine names", () => {
+    expect(parseTailnetRule(" Alice@Example.com ")).toBe("alice@example.com");
+    expect(parseTailnetRule("tag:ci")).toBe("tag:ci");
+    expect(parseTailnetRule("Alice-Phone.tail1234.ts.net.")).toBe("alice-phone.tail1234.ts.net");
+  });
+
+  test("rejects short machine names and anything else", () => {
+    expect(() => parseTailnetRule("alice-phone")).toThrow("full machine name");
+    expect(() => parseTailnetRule("tag:")).toThrow("Invalid tailnet rule");
+    expect(() => parseTailnetRule("two words")).toThrow("Invalid tailnet rule");
+  });
+});
+
+describe("matchTailnetRule", () => {
+  const alice = { user: "Alice@example.com", node: "alice-phone", fqdn: "alice-phone.tail1234.ts.net", tags: [] };
+  const box = { user: null, node: "build-box", fqdn: "build-box.tail1234.ts.net", tags: ["tag:ci"] };
+
+  test("matches by user, tag or machine", () => {
+    expect(matchTailnetRule(alice, ["alice@example.com"])).toBe("alice@example.com");
+    expect(matchTailnetRule(box, ["alice@example.com", "tag:ci"])).toBe("tag:ci");
+    expect(matchTailnetRule(box, ["build-box.tail1234.ts.net"])).toBe("build-box.tail1234.ts.net");
+  });
+
+  test("does not match a shared-in machine with the same short name", () => {
+    const shared = { user: "mallory@other.example", node: "build-box", fqdn: "build-box.tail9999.ts.net", tags: [] };
+    expect(matchTailnetRule(shared, ["build-box.tail1234.ts.net"])).toBeNull();
+  });
+
+  test("returns null when nothing matches", () => {
+    expect(matchTailnetRule(alice, ["bob@example.com", "tag:ci"])).toBeNull();
+  });
+});
+
+describe("formatIdentity", () => {
+  test("names the user, or the tags of a tagged device", () => {
+    expect(formatIdentity({ user: "alice@example.com", node: "alice-phone", tags: [] })).toBe(
+      "alice@example.com on alice-phone",
+    );
+    expect(formatIdentity({ user: null, node: "build-box", tags: ["tag:ci"] })).toBe("build-box (tag:ci)");
+  });
+});
+
+describe("whois", () => {
+  // A stub `tailscale` that knows one address
+  const dir = mkdtempSync(join(tmpdir(), "tailnet-identity-test-"));
+  writeFileSync(join(dir, "phone.json"), phone);
+  writeFileSync(
+    join(dir, "tailscale"),
+    `#!/bin/sh\n[ "$1 $2 $3" = "whois --json 100.101.102.103" ] && exec cat "${join(dir, "phone.json")}"\nexit 1\n`,
+  );
+  chmodSync(join(dir, "tailscale"), 0o755);
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${dir}:${originalPath}`;
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("resolves a tailnet address, including IPv4-mapped form", async () => {
+    expect((await whois("100.101.102.103"))?.user).toBe("alice@example.com");
+    expect((await whois("::ffff:100.101.102.103"))?.node).toBe("alice-phone");
+  });
+
+  test("returns null for unknown addresses", async () => {
+    expect(await whois("100.64.0.9")).toBeNull();
+  });
+});
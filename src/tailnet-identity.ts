@@ -0,0 +1,72 @@
+import { commandOutput, findBinary } from "./utils.ts";
+
+/** Who is behind a tailnet address, from `tailscale whois`. */
+export interface TailnetIdentity {
+  user: string | null; // login name, null for tagged devices
+  node: string; // machine name, the first label of its MagicDNS name
+  fqdn: string | null; // full MagicDNS name, e.g. "phone.tail1234.ts.net"; what machine rules match
+  tags: string[]; // e.g. "tag:laptop"
+}
+
+// Tagged devices have no owner; whois reports this placeholder as their user
+const TAGGED_DEVICES = "tagged-devices";
+
+/**
+ * Validates an allowlist entry: a login name, "tag:<name>" or a full machine name. Short
+ * machine names are refused: a node shared in from another tailnet can have the same one.
+ */
+export function parseTailnetRule(value: string): string {
+  const rule = value.trim().toLowerCase().replace(/\.$/, "");
+  if (/^tag:[a-z0-9-]+$/.test(rule) || /^[^\s@]+@[^\s@]+$/.test(rule) || /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(rule)) {
+    return rule;
+  }
+  throw new Error(
+    `Invalid tailnet rule: ${value} (expected user@domain, tag:<name> or a full machine name such as phone.tail1234.ts.net)`,
+  );
+}
+
+/** Extracts the identity from `tailscale whois --json` output, or null when it has no node. */
+export function parseWhois(output: string): TailnetIdentity | null {
+  let json: {
+    Node?: { Name?: string; ComputedName?: string; Tags?: string[] };
+    UserProfile?: { LoginName?: string };
+  };
+  try {
+    json = JSON.parse(output);
+  } catch {
+    return null;
+  }
+  const fqdn = json.Node?.Name?.replace(/\.$/, "") || null;
+  const node = fqdn?.split(".")[0] || json.Node?.ComputedName;
+  if (!node) return null;
+  const login = json.UserProfile?.LoginName ?? null;
+  return {
+    user: login && login !== TAGGED_DEVICES ? login : null,
+    node,
+    fqdn,
+    tags: json.Node?.Tags ?? [],
+  };
+}
+
+/** Resolves a peer address to its tailnet identity; null when Tailscale does not know it. */
+export async function whois(ip: string): Promise<TailnetIdentity | null> {
+  const tailscale = findBinary("tailscale");
+  if (!tailscale) return null;
+  const address = ip.replace(/^::ffff:/, "").replace(/%.*$/, ""); // IPv4-mapped, zone IDs
+  const output = await commandOutput([tailscale, "whois", "--json", address]);
+  return output === null ? null : parseWhois(output);
+}
+
+/** Returns the allowlist entry that admits this identity, or null. */
+export function matchTailnetRule(identity: TailnetIdentity, rules: string[]): string | null {
+  const user = identity.user?.toLowerCase();
+  const fqdn = identity.fqdn?.toLowerCase();
+  const tags = identity.tags.map((t) => t.toLowerCase());
+  return rules.find((rule) => rule === user || rule === fqdn || tags.includes(rule)) ?? null;
+}
+
+/** E.g. "alice@example.com on phone" or "build-box (tag:ci)". */
+export function formatIdentity(identity: Pick<TailnetIdentity, "user" | "node" | "tags">): string {
+  if (identity.user) return `${identity.user} on ${identity.node}`;
+  return identity.tags.length > 0 ? `${identity.node} (${identity.tags.join(", ")})` : identity.node;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { type ClientState, computeSize, renderScreen, type ScreenState } from "./terminal.ts";
+
+const presence = {
+  conn: "0000",
+  transport: "ssh",
+  ip: "100.64.0.1",
+  identity: null,
+  auth: "password",
+  software: null,
+  connectedAt: 0,
+} as const;
+
+function client(cols: number | null, rows: number | null, extra: Partial<ClientState> = {}): ClientState {
+  return { cols, rows, readOnly: false, pinned: false, activeAt: 0, presence, ...extra };
+}
+
+describe("computeSize", () => {
+  const laptop = client(200, 50, { activeAt: 1 });
+  const phone = client(60, 30, { activeAt: 2 });
+
+  test("returns null until a client reports a size", () => {
+    expect(computeSize([client(null, null)], "smallest")).toBeNull();
+  });
+
+  test("smallest takes the minimum of each dimension", () => {
+    expect(computeSize([laptop, phone, client(100, 20)], "smallest")).toEqual({ cols: 60, rows: 20 });
+  });
+
+  test("latest follows the most recently active client", () => {
+    expect(computeSize([laptop, phone], "latest")).toEqual({ cols: 60, rows: 30 });
+    expect(computeSize([{ ...laptop, activeAt: 3 }, phone], "latest")).toEqual({ cols: 200, rows: 50 });
+  });
+
+  test("pinned uses the pinned client, else falls back to smallest", () => {
+    expect(computeSize([{ ...laptop, pinned: true }, phone], "pinned")).toEqual({ cols: 200, rows: 50 });
+    expect(computeSize([laptop, phone], "pinned")).toEqual({ cols: 60, rows: 30 });
+  });
+
+  test("ignores read-only clients", () => {
+    expect(computeSize([laptop, client(10, 5, { readOnly: true })], "smallest")).toEqual({ cols: 200, rows: 50 });
+  });
+});
+
+describe("renderScreen", () => {
+  const state: ScreenState = { cursorX: 4, cursorY: 1, cursorVisible: true, keypadCursor: false, keypad: false };
+
+  test("places each non-empty line absolutely with autowrap off", () => {
+    const out = renderScreen("\x1b[31mred\x1b[39m\n\n$ ls\n", state);
+    expect(out).toStartWith("\x1b[?1049h\x1b[?7l\x1b[0m\x1b[H\x1b[2J");
+    expect(out).toContain("\x1b[1;1H\x1b[31mred\x1b[39m\x1b[0m\x1b[3;1H$ ls\x1b[0m\x1b[?7h");
+    expect(out).not.toContain("\x1b[2;1H");
+  });
+
+  test("restores the cursor and key modes", () => {
+    expect(renderScreen("", state)).toEndWith("\x1b[?1l\x1b>\x1b[2;5H\x1b[?25h");
+    const app = { ...state, cursorVisible: false, keypadCursor: true, keypad: true };
+    expect(renderScreen("", app)).toEndWith("\x1b[?1h\x1b=\x1b[2;5H\x1b[?25l");
+  });
+});
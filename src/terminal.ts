@@ -1,58 +1,505 @@
-import { findBinary } from "./utils.ts";
+import { type AgentSpec, agentCommandLine, DEFAULT_AGENT_SPEC } from "./agent-launch.ts";
+import { audit } from "./audit.ts";
+import type { HealthSample, HealthState, PaneStatus } from "./health.ts";
+import {
+  claimInput,
+  createInputLock,
+  type DriverChange,
+  dropClient,
+  formatDriverChange,
+  grantControl,
+  type InputLock,
+  lockHolder,
+  releaseControl,
+  requestControl,
+  takeControl,
+} from "./input-lock.ts";
+import type { SessionMetrics } from "./metrics.ts";
+import {
+  createOutputWatcher,
+  type NotifyConfig,
+  type OutputWatcher,
+  stopWatcher,
+  watchInput,
+  watchOutput,
+} from "./notifier.ts";
+import {
+  type ClientPresence,
+  describeClient,
+  formatJoinNotice,
+  formatLeaveNotice,
+  type PresenceEntry,
+} from "./presence.ts";
+import { type Recorder, recordInput, recordOutput, recordResize, startRecording, stopRecording } from "./recorder.ts";
+import { commandOutput, findBinary, log, stripAnsi } from "./utils.ts";
 
 export interface TerminalClient {
   write(data: Buffer | Uint8Array | string): void;
+  close(): void; // ends the connection, e.g. when the host kicks it
+}
+
+// How the shared PTY size is chosen when several clients are attached
+export type ResizePolicy = "smallest" | "latest" | "pinned";
+export const RESIZE_POLICIES: ResizePolicy[] = ["smallest", "latest", "pinned"];
+
+export interface ClientState {
+  cols: number | null; // null until the client reports a size
+  rows: number | null;
+  readOnly: boolean; // read-only clients never affect the size
+  pinned: boolean;
+  activeAt: number; // last input (or join) time, for the "latest" policy and `who`
+  presence: ClientPresence;
+}
+
+export interface ClientOptions {
+  presence: ClientPresence;
+  size?: { cols: number; rows: number } | null;
+  readOnly?: boolean;
+  pinned?: boolean;
 }
 
 type Terminal = NonNullable<Awaited<ReturnType<typeof Bun.spawn>>["terminal"]>;
 
-let terminal: Terminal | null = null;
-let shellProc: ReturnType<typeof Bun.spawn> | null = null;
-const clients = new Set<TerminalClient>();
+export interface TerminalSession {
+  name: string; // routing name, matched against the SSH username
+  tmuxSession: string;
+  cwd: string;
+  attached: boolean; // attached to a pre-existing tmux session
+  yolo: boolean; // launch Claude with --dangerously-skip-permissions
+  agent: AgentSpec; // what runs in the tmux pane
+  createdAt: number;
+  restarts: number; // watchdog restarts so far
+  health: HealthState; // as last seen by the watchdog
+  agentPending: boolean; // waiting for the shell prompt to type the agent command
+  agentStartedAt: number | null; // when the agent command was typed
+  record: { input: boolean } | null; // null = recording disabled
+  recorder: Recorder | null;
+  watcher: OutputWatcher | null; // null = notifications disabled
+  cols: number;
+  rows: number;
+  terminal: Terminal | null;
+  proc: ReturnType<typeof Bun.spawn> | null;
+  resizePolicy: ResizePolicy;
+  clients: Map<TerminalClient, ClientState>;
+  inputLock: InputLock | null; // null = driver mode off, everyone may type
+  maxScrollback: number; // bytes of history returned by getScrollback
+  stats: TerminalStats;
+}
+
+/** Counters for the metrics endpoint, kept across watchdog restarts. */
+export interface TerminalStats {
+  bytesIn: number; // typed into the PTY
+  bytesOut: number; // sent by the PTY, before fan-out to clients
+  resizes: number;
+  lastExitCode: number | null; // of our tmux client when the watchdog last saw a failure
+  restartedAt: number; // creation or last watchdog restart, for uptime
+}
+
+// Driver mode commands, typed as `~r`, `~g`, `~o` and `~l`
+export type ControlCommand = "request" | "grant" | "take" | "release";
+
+// Registry of named sessions served by this process
+const sessions = new Map<string, TerminalSession>();
+
+// History returned on demand (new clients get a snapshot of the screen instead)
+export const DEFAULT_MAX_SCROLLBACK = 512 * 1024; // 512KB
+
+// The agent is typed once the shell prompt has appeared and stopped changing
+const SHELL_READY_POLL_MS = 100;
+const SHELL_READY_TIMEOUT_MS = 10_000;
+
+// Until then a shell in the agent pane does not mean the agent exited
+const AGENT_START_GRACE_MS = 5000;
+
+// Join and leave notices stay up long enough to be read
+const MESSAGE_DISPLAY_MS = 4000;
+
+// A new client's screen snapshot waits this long at most for tmux to take a resize
+const RESIZE_SETTLE_TIMEOUT_MS = 500;
+const RESIZE_SETTLE_POLL_MS = 20;
+
+const DEFAULT_COLS = 80;
+const DEFAULT_ROWS = 24;
+
+export interface SessionOptions {
+  name: string;
+  tmuxSession: string;
+  cwd: string;
+  attached?: boolean;
+  yolo?: boolean;
+  agent?: AgentSpec;
+  record?: { input: boolean } | null;
+  notify?: NotifyConfig | null;
+  resizePolicy?: ResizePolicy;
+  driver?: { idleMs: number } | null; // one client types at a time
+  maxScrollback?: number;
+}
+
+export function createSession(opts: SessionOptions): TerminalSession {
+  if (sessions.has(opts.name)) {
+    throw new Error(`Duplicate session name: ${opts.name}`);
+  }
+  const session: TerminalSession = {
+    name: opts.name,
+    tmuxSession: opts.tmuxSession,
+    cwd: opts.cwd,
+    attached: opts.attached ?? false,
+    yolo: opts.yolo ?? false,
+    agent: opts.agent ?? DEFAULT_AGENT_SPEC,
+    createdAt: Date.now(),
+    restarts: 0,
+    health: "starting",
+    agentPending: false,
+    agentStartedAt: null,
+    record: opts.record ?? null,
+    recorder: null,
+    watcher: opts.notify ? createOutputWatcher(opts.notify, opts.name) : null,
+    cols: DEFAULT_COLS,
+    rows: DEFAULT_ROWS,
+    terminal: null,
+    proc: null,
+    resizePolicy: opts.resizePolicy ?? "smallest",
+    clients: new Map(),
+    inputLock: opts.driver ? createInputLock(opts.driver.idleMs) : null,
+    maxScrollback: opts.maxScrollback ?? DEFAULT_MAX_SCROLLBACK,
+    stats: { bytesIn: 0, bytesOut: 0, resizes: 0, lastExitCode: null, restartedAt: Date.now() },
+  };
+  sessions.set(opts.name, session);
+  return session;
+}
+
+export function getSession(name: string): TerminalSession | null {
+  return sessions.get(name) ?? null;
+}
+
+export function listSessions(): TerminalSession[] {
+  return [...sessions.values()];
+}
+
+/** Output of a tmux command, or null when it fails. Never blocks: clients keep typing meanwhile. */
+async function tmuxOutput(args: string[]): Promise<string | null> {
+  const tmux = findBinary("tmux");
+  return tmux ? commandOutput([tmux, ...args]) : null;
+}
+
+/**
+ * Plain-text history of the pane followed by the visible screen, wrapped lines joined.
+ * Trimmed from the front to the session's scrollback limit, at a line boundary.
+ */
+export async function getScrollback(session: TerminalSession): Promise<string | null> {
+  const history = await tmuxOutput(["capture-pane", "-p", "-J", "-S", "-", "-E", "-", "-t", session.tmuxSession]);
+  if (history === null) return null;
+  const text = `${stripAnsi(history).trimEnd()}\n`; // drop the blank rows below the cursor
+  if (Buffer.byteLength(text) <= session.maxScrollback) return text;
+  const tail = Buffer.from(text).subarray(-session.maxScrollback).toString();
+  return tail.slice(tail.indexOf("\n") + 1);
+}
+
+export interface ScreenState {
+  cursorX: number;
+  cursorY: number;
+  cursorVisible: boolean;
+  keypadCursor: boolean; // application cursor keys (DECCKM)
+  keypad: boolean; // application keypad (DECKPAM)
+}
+
+/**
+ * Escape sequences that repaint a terminal with a pane captured by `tmux capture-pane -e`.
+ * Every line is placed absolutely with autowrap off, so a pane wider or taller than the
+ * client cannot scroll it — tmux redraws everything anyway once the size changes.
+ */
+export function renderScreen(pane: string, state: ScreenState): string {
+  const lines = pane.replace(/\n$/, "").split("\n");
+  let out = "\x1b[?1049h\x1b[?7l\x1b[0m\x1b[H\x1b[2J"; // alternate screen, like a tmux client
+  lines.forEach((line, row) => {
+    if (line) out += `\x1b[${row + 1};1H${line}\x1b[0m`;
+  });
+  out += "\x1b[?7h";
+  out += state.keypadCursor ? "\x1b[?1h" : "\x1b[?1l";
+  out += state.keypad ? "\x1b=" : "\x1b>";
+  out += `\x1b[${state.cursorY + 1};${state.cursorX + 1}H`;
+  out += state.cursorVisible ? "\x1b[?25h" : "\x1b[?25l";
+  return out;
+}
+
+const SCREEN_STATE_FORMAT = "#{cursor_x},#{cursor_y},#{cursor_flag},#{keypad_cursor_flag},#{keypad_flag}";
+
+/** A snapshot of the visible pane with colours, cursor and key modes, or null when tmux is unavailable. */
+async function captureScreen(session: TerminalSession): Promise<string | null> {
+  const [pane, state] = await Promise.all([
+    tmuxOutput(["capture-pane", "-p", "-e", "-t", session.tmuxSession]),
+    tmuxOutput(["display-message", "-p", "-t", session.tmuxSession, SCREEN_STATE_FORMAT]),
+  ]);
+  if (pane === null || state === null) return null;
+  const [cursorX, cursorY, cursorVisible, keypadCursor, keypad] = state.trim().split(",").map(Number);
+  return renderScreen(pane, {
+    cursorX,
+    cursorY,
+    cursorVisible: cursorVisible === 1,
+    keypadCursor: keypadCursor === 1,
+    keypad: keypad === 1,
+  });
+}
+
+/** Name of the tmux client our PTY runs, which every remote client is looking at. */
+async function ourTmuxClient(session: TerminalSession): Promise<string | null> {
+  const clients = await tmuxOutput(["list-clients", "-t", session.tmuxSession, "-F", "#{client_pid} #{client_name}"]);
+  const ours = clients
+    ?.split("\n")
+    .map((line) => line.split(" "))
+    .find(([pid]) => Number(pid) === session.proc?.pid);
+  return ours?.[1] ?? null;
+}
+
+/**
+ * Waits until our tmux client reports the PTY's current size. tmux handles a resize
+ * asynchronously, and a pane captured before that still has the old dimensions.
+ */
+async function waitForTmuxSize(session: TerminalSession): Promise<void> {
+  const size = `${session.cols}x${session.rows}`;
+  const deadline = Date.now() + RESIZE_SETTLE_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const clients = await tmuxOutput([
+      "list-clients",
+      "-t",
+      session.tmuxSession,
+      "-F",
+      "#{client_pid} #{client_width}x#{client_height}",
+    ]);
+    const ours = clients
+      ?.split("\n")
+      .map((line) => line.split(" "))
+      .find(([pid]) => Number(pid) === session.proc?.pid);
+    if (!ours || ours[1] === size) return;
+    await Bun.sleep(RESIZE_SETTLE_POLL_MS);
+  }
+}
+
+/** Paints the current screen on a new client; the live stream continues from there. */
+async function paintScreen(session: TerminalSession, client: TerminalClient, resized: boolean): Promise<void> {
+  if (resized) await waitForTmuxSize(session);
+  if (!session.clients.has(client) || !session.terminal) return;
+  const screen = await captureScreen(session);
+  if (screen !== null && session.clients.has(client)) {
+    client.write(screen);
+    await redrawTmuxClient(session);
+  }
+}
+
+/**
+ * Asks our tmux client to redraw, for the status line that capture-pane does not include.
+ * `refresh-client -S` skips an unchanged status line, so the whole client is redrawn;
+ * clients already attached get an identical repaint.
+ */
+async function redrawTmuxClient(session: TerminalSession): Promise<void> {
+  const ours = await ourTmuxClient(session);
+  if (ours) await tmuxOutput(["refresh-client", "-t", ours]);
+}
+
+/**
+ * Shows a message in tmux's status line area for a few seconds. Unlike writeNotice it
+ * does not disturb a full-screen agent, so it suits frequent events like joins.
+ */
+async function showMessage(session: TerminalSession, message: string): Promise<void> {
+  const ours = await ourTmuxClient(session);
+  if (!ours) return;
+  // Messages are tmux formats, so a literal # is written ##
+  await tmuxOutput(["display-message", "-c", ours, "-d", String(MESSAGE_DISPLAY_MS), message.replaceAll("#", "##")]);
+}
+
+export function writeToTerminal(session: TerminalSession, data: string | Uint8Array, from?: TerminalClient): void {
+  if (!session.terminal) return;
+  const state = from && session.clients.get(from);
+  if (state && session.inputLock) {
+    const { allowed, change, warn } = claimInput(session.inputLock, state.presence.conn, Date.now());
+    if (change) announceDriver(session, change);
+    if (!allowed) {
+      if (warn) from.write(lockedNotice(session));
+      return;
+    }
+  }
+  if (state) {
+    state.activeAt = Date.now();
+    if (session.resizePolicy === "latest") applyClientSizes(session);
+  }
+  session.terminal.write(data);
+  session.stats.bytesIn += typeof data === "string" ? Buffer.byteLength(data) : data.length;
+  if (session.recorder) recordInput(session.recorder, data);
+  if (session.watcher) watchInput(session.watcher);
+}
+
+export function addClient(session: TerminalSession, client: TerminalClient, opts: ClientOptions): void {
+  const readOnly = opts.readOnly ?? false;
+  session.clients.set(client, {
+    cols: opts.size?.cols ?? null,
+    rows: opts.size?.rows ?? null,
+    readOnly,
+    pinned: opts.pinned ?? false,
+    activeAt: Date.now(),
+    presence: opts.presence,
+  });
+  const resized = applyClientSizes(session);
 
-// Scrollback buffer for reconnect initial state
-const MAX_SCROLLBACK = 512 * 1024; // 512KB
-const scrollbackChunks: Buffer[] = [];
-let scrollbackSize = 0;
+  if (!session.terminal) return;
+  // The notice follows the repaint, which would otherwise wipe it from the status line
+  const joined = session.clients.size > 1;
+  void paintScreen(session, client, resized).then(() => {
+    if (joined) return showMessage(session, formatJoinNotice(opts.presence, readOnly));
+  });
+}
 
-// Wait for tmux shell to be ready before launching Claude CLI
-const CLAUDE_LAUNCH_DELAY_MS = 500;
+export function removeClient(session: TerminalSession, client: TerminalClient): void {
+  const state = session.clients.get(client);
+  if (!state) return;
+  // Announced while the leaving client can still be named
+  const change = session.inputLock && dropClient(session.inputLock, state.presence.conn, Date.now());
+  if (change) announceDriver(session, change);
+  session.clients.delete(client);
+  applyClientSizes(session);
+  if (session.clients.size > 0 && session.terminal) void showMessage(session, formatLeaveNotice(state.presence));
+}
 
-function appendScrollback(data: Buffer | Uint8Array): void {
-  const buf = Buffer.isBuffer(data) ? data : Buffer.from(data);
-  scrollbackChunks.push(buf);
-  scrollbackSize += buf.length;
+/** The attached clients with their presence, oldest connection first. */
+export function listPresence(session: TerminalSession): PresenceEntry[] {
+  const driver = session.inputLock && lockHolder(session.inputLock);
+  return [...session.clients.values()]
+    .map((state) => ({
+      ...state.presence,
+      session: session.name,
+      readOnly: state.readOnly,
+      activeAt: state.activeAt,
+      driver: state.presence.conn === driver,
+    }))
+    .sort((a, b) => a.connectedAt - b.connectedAt);
+}
 
-  // Trim from front when over limit
-  while (scrollbackSize > MAX_SCROLLBACK && scrollbackChunks.length > 1) {
-    const removed = scrollbackChunks.shift();
-    if (removed) scrollbackSize -= removed.length;
+function findPresence(session: TerminalSession, conn: string): ClientPresence | null {
+  for (const state of session.clients.values()) {
+    if (state.presence.conn === conn) return state.presence;
   }
+  return null;
+}
+
+/** The client allowed to type in driver mode, or null when nobody is in control. */
+export function driverPresence(session: TerminalSession): ClientPresence | null {
+  const holder = session.inputLock && lockHolder(session.inputLock);
+  return holder ? findPresence(session, holder) : null;
+}
+
+function announceDriver(session: TerminalSession, change: DriverChange): void {
+  audit({ type: "session.driver", session: session.name, ...change });
+  const describe = (conn: string) => {
+    const presence = findPresence(session, conn);
+    return presence ? describeClient(presence) : conn;
+  };
+  void showMessage(session, formatDriverChange(change, describe));
 }
 
-function getScrollbackBuffer(): Buffer {
-  return Buffer.concat(scrollbackChunks);
+function lockedNotice(session: TerminalSession): string {
+  const driver = driverPresence(session);
+  const holder = driver ? describeClient(driver) : "Another client";
+  return `\r\n\x1b[90m[${holder} has control. ~r asks for it, ~o takes over.]\x1b[0m\r\n`;
 }
 
-export function getScrollback(): string {
-  return getScrollbackBuffer().toString();
+/**
+ * Runs a driver mode escape for a client. Changes are announced to everyone; the
+ * returned text, if any, is meant for the asking client only.
+ */
+export function controlInput(session: TerminalSession, client: TerminalClient, command: ControlCommand): string | null {
+  const state = session.clients.get(client);
+  const lock = session.inputLock;
+  if (!lock || !state) return "Driver mode is off (start with --driver).";
+  if (state.readOnly) return "Read-only connections cannot take control.";
+  const conn = state.presence.conn;
+  const now = Date.now();
+  let change: DriverChange | null;
+  let reply: string;
+  switch (command) {
+    case "request":
+      change = requestControl(lock, conn, now);
+      if (!change && lock.requester === conn) {
+        void showMessage(session, `${describeClient(state.presence)} asks for control, ~g to grant`);
+        return null;
+      }
+      reply = "You have control.";
+      break;
+    case "grant":
+      change = grantControl(lock, conn, now);
+      reply = lock.holder === conn ? "Nobody asked for control." : "You do not have control.";
+      break;
+    case "take":
+      change = takeControl(lock, conn, now);
+      reply = "You have control.";
+      break;
+    case "release":
+      change = releaseControl(lock, conn, now);
+      reply = "You do not have control.";
+      break;
+  }
+  if (!change) return reply;
+  announceDriver(session, change);
+  return null;
 }
 
-export function writeToTerminal(data: string | Uint8Array): void {
-  if (terminal) terminal.write(data);
+/** Disconnects the client with this connection ID from whichever session it is in. */
+export function kickClient(conn: string): boolean {
+  for (const session of sessions.values()) {
+    for (const [client, state] of session.clients) {
+      if (state.presence.conn !== conn) continue;
+      const { transport, ip } = state.presence;
+      audit({ type: "session.kick", conn, transport, ip, session: session.name });
+      client.write("\r\n\x1b[90m[Disconnected by the host]\x1b[0m\r\n");
+      client.close(); // the transport's close handler removes it
+      return true;
+    }
+  }
+  return false;
 }
 
-export function addClient(client: TerminalClient): void {
-  clients.add(client);
+export function resizeClient(session: TerminalSession, client: TerminalClient, cols: number, rows: number): void {
+  const state = session.clients.get(client);
+  if (!state) return;
+  state.cols = cols;
+  state.rows = rows;
+  applyClientSizes(session);
+}
 
-  // Send scrollback so new connections see existing output
-  if (scrollbackSize > 0) {
-    client.write(getScrollbackBuffer());
+/**
+ * Picks the PTY size from the attached clients' sizes according to the session's policy.
+ * Returns null when no writable client has reported a size yet.
+ */
+export function computeSize(
+  clients: Iterable<ClientState>,
+  policy: ResizePolicy,
+): { cols: number; rows: number } | null {
+  const sized = [...clients].filter(
+    (c): c is ClientState & { cols: number; rows: number } => !c.readOnly && c.cols !== null && c.rows !== null,
+  );
+  if (sized.length === 0) return null;
+
+  if (policy === "latest") {
+    const latest = sized.reduce((a, b) => (b.activeAt >= a.activeAt ? b : a));
+    return { cols: latest.cols, rows: latest.rows };
   }
+
+  // Pinned falls back to smallest-of-all when the pinned client is gone
+  const pinned = policy === "pinned" ? sized.find((c) => c.pinned) : undefined;
+  if (pinned) return { cols: pinned.cols, rows: pinned.rows };
+
+  return {
+    cols: Math.min(...sized.map((c) => c.cols)),
+    rows: Math.min(...sized.map((c) => c.rows)),
+  };
 }
 
-export function removeClient(client: TerminalClient): void {
-  clients.delete(client);
+/** Resizes the PTY to fit the clients; returns whether the size changed. */
+function applyClientSizes(session: TerminalSession): boolean {
+  const size = computeSize(session.clients.values(), session.resizePolicy);
+  if (!size) return false;
+  const clamped = clampSize(size.cols, size.rows);
+  if (clamped.cols === session.cols && clamped.rows === session.rows) return false;
+  resizeTerminal(session, clamped.cols, clamped.rows);
+  return true;
 }
 
 const MIN_COLS = 1;
@@ -60,25 +507,27 @@ const MAX_COLS = 500;
 const MIN_ROWS = 1;
 const MAX_ROWS = 200;
 
-export function resizeTerminal(cols: number, rows: number): void {
-  if (!terminal) return;
-  const clampedCols = Math.max(MIN_COLS, Math.min(MAX_COLS, Math.floor(cols)));
-  const clampedRows = Math.max(MIN_ROWS, Math.min(MAX_ROWS, Math.floor(rows)));
-  terminal.resize(clampedCols, clampedRows);
-}
-
-let tmuxSession: string | null = null;
-
-export function getTmuxSession(): string | null {
-  return tmuxSession;
+function clampSize(cols: number, rows: number): { cols: number; rows: number } {
+  return {
+    cols: Math.max(MIN_COLS, Math.min(MAX_COLS, Math.floor(cols))),
+    rows: Math.max(MIN_ROWS, Math.min(MAX_ROWS, Math.floor(rows))),
+  };
 }
 
-export function spawnTerminal(sessionName: string, cwd?: string, yolo?: boolean): ReturnType<typeof Bun.spawn> {
-  const tmux = findBinary("tmux");
-  if (!tmux) {
-    throw new Error("tmux is required but not found. Install it: brew install tmux");
+export function resizeTerminal(session: TerminalSession, cols: number, rows: number): void {
+  if (!session.terminal) return;
+  const size = clampSize(cols, rows);
+  if (size.cols !== session.cols || size.rows !== session.rows) {
+    audit({ type: "terminal.resize", session: session.name, cols: size.cols, rows: size.rows });
+    session.stats.resizes++;
   }
+  session.terminal.resize(size.cols, size.rows);
+  session.cols = size.cols;
+  session.rows = size.rows;
+  if (session.recorder) recordResize(session.recorder, size.cols, size.rows);
+}
 
+function terminalEnv(): Record<string, string | undefined> {
   // Clean env: remove Claude Code vars, set locale
   const env = { ...process.env };
   delete env.CLAUDECODE;
@@ -88,96 +537,219 @@ export function spawnTerminal(sessionName: string, cwd?: string, yolo?: boolean)
   env.LANG = "en_US.UTF-8";
   env.LC_ALL = "en_US.UTF-8";
   env.TERM = "xterm-256color";
+  return env;
+}
 
-  const projectDir = cwd || process.cwd();
+function startPty(session: TerminalSession, cmd: string[], env: Record<string, string | undefined>, cwd?: string) {
+  // Start at the attached clients' size (after a watchdog restart), else the default
+  const size = computeSize(session.clients.values(), session.resizePolicy);
+  const initial = size ? clampSize(size.cols, size.rows) : { cols: DEFAULT_COLS, rows: DEFAULT_ROWS };
+  session.cols = initial.cols;
+  session.rows = initial.rows;
 
-  // Kill any leftover session from a previous run
-  Bun.spawnSync([tmux, "kill-session", "-t", sessionName], { env });
+  // A new PTY (first start or watchdog restart) starts a new cast file
+  if (session.recorder) stopRecording(session.recorder);
+  session.recorder = session.record ? startRecording(session.name, session, cmd, session.record.input) : null;
 
-  // tmux new-session in the project directory
-  const proc = Bun.spawn([tmux, "new-session", "-s", sessionName], {
+  const proc = Bun.spawn(cmd, {
     env,
-    cwd: projectDir,
+    cwd,
     terminal: {
-      cols: 80,
-      rows: 24,
+      cols: initial.cols,
+      rows: initial.rows,
       data(_term, data) {
-        appendScrollback(data);
-        for (const client of clients) {
+        session.stats.bytesOut += data.length;
+        if (session.recorder) recordOutput(session.recorder, data);
+        if (session.watcher) watchOutput(session.watcher, data);
+        for (const client of session.clients.keys()) {
           client.write(data);
         }
       },
     },
   });
 
-  terminal = proc.terminal ?? null;
-  shellProc = proc;
-  tmuxSession = sessionName;
-  scrollbackChunks.length = 0;
-  scrollbackSize = 0;
-
-  // Launch Claude Code CLI after tmux shell is ready
-  const claudeCmd = yolo ? "claude --dangerously-skip-permissions" : "claude";
-  setTimeout(() => {
-    if (terminal) terminal.write(`${claudeCmd}\r`);
-  }, CLAUDE_LAUNCH_DELAY_MS);
+  session.terminal = proc.terminal ?? null;
+  session.proc = proc;
 
   return proc;
 }
 
-export function attachTerminal(sessionName: string): ReturnType<typeof Bun.spawn> {
+export function spawnTerminal(session: TerminalSession): ReturnType<typeof Bun.spawn> {
   const tmux = findBinary("tmux");
   if (!tmux) {
     throw new Error("tmux is required but not found. Install it: brew install tmux");
   }
 
-  const env = { ...process.env };
-  delete env.CLAUDECODE;
-  delete env.CLAUDE_CODE_ENTRYPOINT;
-  delete env.CLAUDE_CODE_ENTRY_VERSION;
-  delete env.CLAUDE_CODE_ENV_VERSION;
-  env.LANG = "en_US.UTF-8";
-  env.LC_ALL = "en_US.UTF-8";
-  env.TERM = "xterm-256color";
+  const env = terminalEnv();
 
-  const proc = Bun.spawn([tmux, "attach-session", "-t", sessionName], {
-    env,
-    terminal: {
-      cols: 80,
-      rows: 24,
-      data(_term, data) {
-        appendScrollback(data);
-        for (const client of clients) {
-          client.write(data);
-        }
-      },
-    },
-  });
+  // Kill any leftover session from a previous run
+  Bun.spawnSync([tmux, "kill-session", "-t", session.tmuxSession], { env });
+
+  // tmux new-session in the project directory, with the agent's environment on the session
+  const sessionEnv = session.agent.env.flatMap((entry) => ["-e", entry]);
+  const proc = startPty(session, [tmux, "new-session", "-s", session.tmuxSession, ...sessionEnv], env, session.cwd);
 
-  terminal = proc.terminal ?? null;
-  shellProc = proc;
-  tmuxSession = sessionName;
-  scrollbackChunks.length = 0;
-  scrollbackSize = 0;
+  // A restart may resume the conversation
+  launchAgent(session, proc, session.restarts > 0);
 
   return proc;
 }
 
-export function getProc(): ReturnType<typeof Bun.spawn> | null {
-  return shellProc;
+/** Types the agent command again into the existing pane, after the agent exited. */
+export function relaunchAgent(session: TerminalSession): void {
+  if (session.proc) launchAgent(session, session.proc, true);
+}
+
+/** Types the agent command once the shell is ready. */
+function launchAgent(session: TerminalSession, proc: ReturnType<typeof Bun.spawn>, restart: boolean): void {
+  const commandLine = agentCommandLine(session.agent, { yolo: session.yolo, restart });
+  if (!commandLine) return;
+  session.agentPending = true;
+  session.agentStartedAt = null;
+  void waitForShell(session, proc).then((result) => {
+    if (result === "gone") return; // the next launch owns the agent state
+    session.agentPending = false;
+    if (result === "timeout") {
+      log(`Shell in "${session.name}" not ready after ${SHELL_READY_TIMEOUT_MS / 1000}s, launching anyway`);
+    }
+    writeToTerminal(session, `${commandLine}\r`);
+    session.agentStartedAt = Date.now();
+  });
+}
+
+/**
+ * Waits until the pane shows a prompt: some text, the cursor after it, and no change
+ * between two polls (rc files that print or clear the screen are still running otherwise).
+ */
+async function waitForShell(
+  session: TerminalSession,
+  proc: ReturnType<typeof Bun.spawn>,
+): Promise<"ready" | "timeout" | "gone"> {
+  const deadline = Date.now() + SHELL_READY_TIMEOUT_MS;
+  let previous: string | null = null;
+  while (Date.now() < deadline) {
+    await Bun.sleep(SHELL_READY_POLL_MS);
+    if (session.proc !== proc) return "gone"; // restarted or killed meanwhile
+    const [pane, cursor] = await Promise.all([
+      capturePane(session),
+      tmuxOutput(["display-message", "-p", "-t", session.tmuxSession, "#{cursor_x}"]),
+    ]);
+    if (session.proc !== proc) return "gone";
+    const screen = pane?.trim() ?? "";
+    const cursorX = Number(cursor ?? 0);
+    if (screen !== "" && cursorX > 0 && screen === previous) return "ready";
+    previous = screen;
+  }
+  return "timeout";
+}
+
+export function attachTerminal(session: TerminalSession): ReturnType<typeof Bun.spawn> {
+  const tmux = findBinary("tmux");
+  if (!tmux) {
+    throw new Error("tmux is required but not found. Install it: brew install tmux");
+  }
+
+  return startPty(session, [tmux, "attach-session", "-t", session.tmuxSession], terminalEnv());
+}
+
+/**
+ * Ends our tmux session so the watchdog recreates it through its usual path. A session we
+ * only attached to is left alone: ending the client makes the watchdog reattach.
+ */
+export function restartTerminal(session: TerminalSession): boolean {
+  const proc = session.proc;
+  if (!proc || proc.killed) return false;
+  const killed = session.attached ? Promise.resolve(null) : tmuxOutput(["kill-session", "-t", session.tmuxSession]);
+  void killed.then(() => proc.kill("SIGTERM"));
+  return true;
+}
+
+/**
+ * The pane the agent was launched in: the session's oldest pane (pane IDs only grow),
+ * so windows opened later for other work are not mistaken for it.
+ */
+async function agentPane(session: TerminalSession): Promise<PaneStatus | null> {
+  const panes = await tmuxOutput([
+    "list-panes",
+    "-s",
+    "-t",
+    session.tmuxSession,
+    "-F",
+    "#{pane_id} #{pane_dead} #{pane_current_command}",
+  ]);
+  if (panes === null) return null;
+  const [oldest] = panes
+    .trim()
+    .split("\n")
+    .map((line) => line.split(" "))
+    .filter(([id]) => id?.startsWith("%"))
+    .sort(([a], [b]) => Number(a.slice(1)) - Number(b.slice(1)));
+  if (!oldest) return null;
+  return { dead: oldest[1] === "1", command: oldest.slice(2).join(" ") };
+}
+
+/** Polls tmux for what the watchdog needs to classify the terminal's health. */
+export async function sampleHealth(session: TerminalSession, now: number = Date.now()): Promise<HealthSample> {
+  const proc = session.proc;
+  const starting = session.agentStartedAt !== null && now - session.agentStartedAt < AGENT_START_GRACE_MS;
+  return {
+    clientAlive: proc !== null && proc.exitCode === null && proc.signalCode === null,
+    pane: await agentPane(session),
+    agent: session.agentPending || starting ? "launching" : session.agentStartedAt !== null ? "launched" : "none",
+  };
+}
+
+/** A dim one-line notice between the terminal output, e.g. about a restart. */
+export function writeNotice(session: TerminalSession, message: string): void {
+  for (const client of session.clients.keys()) {
+    client.write(`\r\n\x1b[90m[${message}]\x1b[0m\r\n`);
+  }
+}
+
+/** Bytes of history tmux keeps for the agent's pane, or null when tmux cannot tell. */
+export async function scrollbackBytes(session: TerminalSession): Promise<number | null> {
+  const output = await tmuxOutput(["display-message", "-p", "-t", session.tmuxSession, "#{history_bytes}"]);
+  const bytes = Number(output?.trim());
+  return output && Number.isFinite(bytes) ? bytes : null;
+}
+
+export async function sessionMetrics(session: TerminalSession, now: number = Date.now()): Promise<SessionMetrics> {
+  const { bytesIn, bytesOut, resizes, lastExitCode, restartedAt } = session.stats;
+  return {
+    name: session.name,
+    health: session.health,
+    clients: session.clients.size,
+    bytesIn,
+    bytesOut,
+    scrollbackBytes: await scrollbackBytes(session),
+    resizes,
+    restarts: session.restarts,
+    lastExitCode,
+    uptimeMs: now - restartedAt,
+  };
+}
+
+/** Plain-text contents of the visible pane, via `tmux capture-pane`. */
+export async function capturePane(session: TerminalSession): Promise<string | null> {
+  return tmuxOutput(["capture-pane", "-p", "-t", session.tmuxSession]);
 }
 
-export function killTerminal(opts?: { keepSession?: boolean }): void {
+export function killTerminal(session: TerminalSession, opts?: { keepSession?: boolean }): void {
   if (!opts?.keepSession) {
     const tmux = findBinary("tmux");
-    if (tmux && tmuxSession) {
-      Bun.spawnSync([tmux, "kill-session", "-t", tmuxSession]);
+    if (tmux) {
+      Bun.spawnSync([tmux, "kill-session", "-t", session.tmuxSession]);
     }
   }
 
-  if (shellProc && !shellProc.killed) {
-    shellProc.kill("SIGTERM");
+  if (session.proc && !session.proc.killed) {
+    session.proc.kill("SIGTERM");
+  }
+  if (session.recorder) {
+    stopRecording(session.recorder);
+    session.recorder = null;
   }
-  terminal = null;
-  shellProc = null;
+  if (session.watcher) stopWatcher(session.watcher);
+  session.terminal = null;
+  session.proc = null;
 }
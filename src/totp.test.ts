@@ -0,0 +1,97 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  loadTotpSecret,
+  otpauthUri,
+  removeTotpSecret,
+  saveTotpSecret,
+  totpCode,
+  verifyTotp,
+} from "./totp.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "superintent-remote-totp-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+// RFC 6238 appendix B test key (ASCII "12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  test("round-trips bytes", () => {
+    const data = Buffer.from([0, 1, 2, 250, 251, 252, 253]);
+    expect(base32Decode(base32Encode(data))).toEqual(data);
+  });
+
+  test("matches RFC 4648 vectors and ignores padding, case and spaces", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(base32Decode("mzxw 6ytb oi======").toString()).toBe("foobar");
+  });
+
+  test("rejects invalid characters", () => {
+    expect(() => base32Decode("ABC1")).toThrow("Invalid base32 character: 1");
+  });
+
+  test("generated secrets hold 160 bits", () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe("totpCode", () => {
+  test("matches the RFC 6238 SHA-1 vectors (last 6 digits)", () => {
+    expect(totpCode(RFC_SECRET, 59_000)).toBe("287082");
+    expect(totpCode(RFC_SECRET, 1111111109_000)).toBe("081804");
+    expect(totpCode(RFC_SECRET, 1234567890_000)).toBe("005924");
+    expect(totpCode(RFC_SECRET, 2000000000_000)).toBe("279037");
+  });
+});
+
+describe("verifyTotp", () => {
+  test("accepts the current code and one step of clock drift", () => {
+    const secret = generateTotpSecret();
+    const now = 1_700_000_000_000;
+    expect(verifyTotp(secret, totpCode(secret, now - 30_000), now)).toBe(true);
+    expect(verifyTotp(secret, totpCode(secret, now + 30_000), now)).toBe(true);
+    expect(verifyTotp(secret, totpCode(secret, now + 90_000), now)).toBe(false);
+  });
+
+  test("refuses a code that was already used", () => {
+    const secret = generateTotpSecret();
+    const now = 1_700_000_000_000;
+    const code = totpCode(secret, now);
+    expect(verifyTotp(secret, code, now)).toBe(true);
+    expect(verifyTotp(secret, code, now + 1000)).toBe(false);
+    // An older step is also spent once a newer one was used
+    expect(verifyTotp(secret, totpCode(secret, now - 30_000), now)).toBe(false);
+  });
+
+  test("rejects malformed input", () => {
+    const secret = generateTotpSecret();
+    expect(verifyTotp(secret, "")).toBe(false);
+    expect(verifyTotp(secret, "12345")).toBe(false);
+    expect(verifyTotp(secret, "1234567")).toBe(false);
+  });
+});
+
+describe("otpauthUri", () => {
+  test("encodes the label and parameters", () => {
+    expect(otpauthUri("ABC", "me@host")).toBe(
+      "otpauth://totp/Superintent%20Remote%3Ame%40host?secret=ABC&issuer=Superintent+Remote&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
+
+describe("secret file", () => {
+  test("is saved with owner-only permissions and can be removed", () => {
+    const path = join(dir, "totp-secret");
+    expect(loadTotpSecret(path)).toBeNull();
+    saveTotpSecret("ABCDEF", path);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(loadTotpSecret(path)).toBe("ABCDEF");
+    expect(removeTotpSecret(path)).toBe(true);
+    expect(removeTotpSecret(path)).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { CACHE_DIR } from "./utils.ts";
+
+export const TOTP_SECRET_PATH = join(CACHE_DIR, "totp-secret");
+
+// RFC 6238 defaults understood by every authenticator app
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // accept the previous and next code for clock skew
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(text: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text.toUpperCase().replace(/[\s=]/g, "")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20)); // 160 bits, as recommended for HMAC-SHA1
+}
+
+/** HOTP (RFC 4226) for one counter value. */
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return code.toString().padStart(DIGITS, "0");
+}
+
+export function totpCode(secret: string, now: number = Date.now()): string {
+  return hotp(base32Decode(secret), Math.floor(now / 1000 / STEP_SECONDS));
+}
+
+// Last accepted time step per secret, so a code cannot be replayed within its window
+const lastUsedStep = new Map<string, number>();
+
+export function verifyTotp(secret: string, code: string, now: number = Date.now()): boolean {
+  const input = Buffer.from(code.replace(/\s/g, ""));
+  if (input.length !== DIGITS) return false;
+
+  const key = base32Decode(secret);
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let step = current - ALLOWED_DRIFT_STEPS; step <= current + ALLOWED_DRIFT_STEPS; step++) {
+    if (!timingSafeEqual(input, Buffer.from(hotp(key, step)))) continue;
+    if (step <= (lastUsedStep.get(secret) ?? -1)) return false;
+    lastUsedStep.set(secret, step);
+    return true;
+  }
+  return false;
+}
+
+export function otpauthUri(secret: string, account: string, issuer = "Superintent Remote"): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+/** Returns the enrolled secret, or null when TOTP is not set up. */
+export function loadTotpSecret(path: string = TOTP_SECRET_PATH): string | null {
+  if (!existsSync(path)) return null;
+  const secret = readFileSync(path, "utf-8").trim();
+  return secret || null;
+}
+
+export function saveTotpSecret(secret: string, path: string = TOTP_SECRET_PATH): void {
+  writeFileSync(path, `${secret}\n`, { mode: 0o600 });
+}
+
+export function removeTotpSecret(path: string = TOTP_SECRET_PATH): boolean {
+  if (!existsSync(path)) return false;
+  unlinkSync(path);
+  return true;
+}
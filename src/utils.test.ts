@@ -1,5 +1,13 @@
 import { describe, expect, test } from "bun:test";
-import { createTmuxSessionName, isProcessAlive, SSH_PORT } from "./utils.ts";
+import {
+  commandOutput,
+  createTmuxSessionName,
+  formatDuration,
+  isProcessAlive,
+  projectSessionName,
+  SSH_PORT,
+  stripAnsi,
+} from "./utils.ts";
 
 describe("createTmuxSessionName", () => {
   test("sanitizes directory names", () => {
@@ -19,6 +27,35 @@ describe("createTmuxSessionName", () => {
   });
 });
 
+describe("projectSessionName", () => {
+  test("sanitizes the folder basename without a suffix", () => {
+    expect(projectSessionName("/home/user/my project (1)")).toBe("my-project--1-");
+  });
+});
+
+describe("stripAnsi", () => {
+  test("removes colors and control sequences", () => {
+    expect(stripAnsi("\x1b[31mred\x1b[0m \x1b]0;title\x07plain\r\n")).toBe("red plain\n");
+  });
+
+  test("turns cursor-forward moves into spaces", () => {
+    expect(stripAnsi("Claude\x1b[CCode\x1b[3Cv2")).toBe("Claude Code   v2");
+  });
+
+  test("turns cursor positioning into line breaks", () => {
+    expect(stripAnsi("one\x1b[2;1Htwo")).toBe("one\ntwo");
+  });
+});
+
+describe("formatDuration", () => {
+  test("formats seconds, minutes, hours and days", () => {
+    expect(formatDuration(12_000)).toBe("12s");
+    expect(formatDuration(303_000)).toBe("5m 03s");
+    expect(formatDuration(3_723_000)).toBe("1h 02m 03s");
+    expect(formatDuration(2 * 86_400_000 + 3 * 3_600_000)).toBe("2d 03h 00m");
+  });
+});
+
 describe("SSH_PORT", () => {
   test("defaults to 2222", () => {
     expect(SSH_PORT).toBe(2222);
@@ -34,3 +71,14 @@ describe("isProcessAlive", () => {
     expect(isProcessAlive(999999999)).toBe(false);
   });
 });
+
+describe("commandOutput", () => {
+  test("returns stdout of a successful command", async () => {
+    expect(await commandOutput(["echo", "hello"])).toBe("hello\n");
+  });
+
+  test("returns null when the command fails or does not exist", async () => {
+    expect(await commandOutput(["false"])).toBeNull();
+    expect(await commandOutput(["/nonexistent/superintent-remote-test"])).toBeNull();
+  });
+});
@@ -1,14 +1,69 @@
 import { randomBytes } from "node:crypto";
-import { existsSync, mkdirSync, unlinkSync } from "node:fs";
-import { homedir, networkInterfaces } from "node:os";
+import { appendFileSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { homedir, type NetworkInterfaceInfo, networkInterfaces } from "node:os";
 import { basename, join } from "node:path";
 
 export const SSH_PORT = 2222;
 export const CACHE_DIR = join(homedir(), ".cache", "superintent-remote");
 export const LOG_DIR = join(CACHE_DIR, "logs");
 
+export function projectSessionName(cwd: string): string {
+  return basename(cwd).replace(/[^a-zA-Z0-9_-]/g, "-");
+}
+
+// Set by the running instance so `superintent-remote logs` can read events back
+let logFile: string | null = null;
+
+export function setLogFile(path: string): void {
+  writeFileSync(path, "");
+  logFile = path;
+}
+
+export function log(message: string): void {
+  const line = `[${new Date().toISOString()}] ${message}`;
+  console.log(line);
+  if (logFile) appendFileSync(logFile, `${line}\n`);
+}
+
+// CSI sequences, OSC strings (BEL or ST terminated), DCS/SOS/PM/APC strings, charset selection, other 2-byte escapes
+const ANSI_PATTERN =
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: matching terminal escape sequences
+  /\x1b\[([0-?]*)[ -/]*([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[PX^_][^\x1b]*\x1b\\|\x1b[()][0-9A-Za-z]|\x1b[@-Z\\-_=>]/g;
+
+// Remaining C0 controls (keeps \t and \n), including the \r of \r\n line endings
+// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping control characters
+const CONTROL_PATTERN = /[\x00-\x08\x0b-\x1f\x7f]/g;
+
+/**
+ * Removes terminal escape sequences. Cursor-forward moves become spaces and absolute
+ * positioning becomes a newline, so text drawn by TUIs like Claude Code stays readable.
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(ANSI_PATTERN, (_match, params: string | undefined, final: string | undefined) => {
+      if (final === "C") return " ".repeat(Math.min(parseInt(params || "1", 10) || 1, 500));
+      if (final === "H" || final === "f" || final === "d") return "\n";
+      return "";
+    })
+    .replace(/\r(?!\n)/g, "\n")
+    .replace(CONTROL_PATTERN, "");
+}
+
+export function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  if (days > 0) return `${days}d ${pad(hours)}h ${pad(minutes)}m`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+  if (minutes > 0) return `${minutes}m ${pad(seconds)}s`;
+  return `${seconds}s`;
+}
+
 export function createTmuxSessionName(cwd: string): string {
-  const folder = basename(cwd).replace(/[^a-zA-Z0-9_-]/g, "-");
+  const folder = projectSessionName(cwd);
   const suffix = randomBytes(3).toString("hex");
   return `${folder}-${suffix}-remote`;
 }
@@ -26,7 +81,7 @@ const FALLBACK_PATHS: Record<string, string[]> = {
 };
 
 export function findBinary(name: string): string | null {
-  const found = Bun.which(name);
+  const found = Bun.which(name, { PATH: process.env.PATH }); // the current PATH, not the one at startup
   if (found) return found;
   const fallbacks = FALLBACK_PATHS[name];
   if (!fallbacks) return null;
@@ -36,64 +91,69 @@ export function findBinary(name: string): string | null {
   return null;
 }
 
-export function getTailscaleIp(): string | null {
-  const tailscale = findBinary("tailscale");
-  if (!tailscale) return null;
+// A hung tmux or tailscale must not hold up the poll that asked
+const COMMAND_TIMEOUT_MS = 5000;
 
-  // Check that Tailscale is actually running (not just returning cached IP)
-  const status = Bun.spawnSync([tailscale, "status", "--json"]);
-  if (!status.success) return null;
+/** Stdout of a command, without blocking the event loop; null when it fails or times out. */
+export async function commandOutput(cmd: string[]): Promise<string | null> {
   try {
-    const json = JSON.parse(status.stdout.toString());
-    if (json.BackendState !== "Running") return null;
+    const proc = Bun.spawn(cmd, { stdout: "pipe", stderr: "ignore" });
+    const timer = setTimeout(() => proc.kill(), COMMAND_TIMEOUT_MS);
+    const output = await new Response(proc.stdout).text();
+    const exitCode = await proc.exited;
+    clearTimeout(timer);
+    return exitCode === 0 ? output : null;
   } catch {
     return null;
   }
-
-  const result = Bun.spawnSync([tailscale, "ip", "-4"]);
-  if (!result.success) return null;
-  return result.stdout.toString().trim() || null;
 }
 
-export function getLocalIp(): string | null {
-  const interfaces = networkInterfaces();
-  for (const addrs of Object.values(interfaces)) {
-    if (!addrs) continue;
-    for (const addr of addrs) {
-      if (addr.family === "IPv4" && !addr.internal) {
-        return addr.address;
-      }
-    }
+/** The Tailscale IPv4 and IPv6 addresses of this machine, or [] when Tailscale is not running. */
+export async function getTailscaleIps(): Promise<string[]> {
+  const tailscale = findBinary("tailscale");
+  if (!tailscale) return [];
+
+  // Check that Tailscale is actually running (not just returning cached IP)
+  const status = await commandOutput([tailscale, "status", "--json"]);
+  if (status === null) return [];
+  try {
+    const json = JSON.parse(status);
+    if (json.BackendState !== "Running") return [];
+  } catch {
+    return [];
   }
-  return null;
-}
 
-export function ensureCacheDir(): void {
-  mkdirSync(LOG_DIR, { recursive: true });
+  const ips = await commandOutput([tailscale, "ip"]);
+  if (ips === null) return [];
+  return ips
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
 }
 
-export function pidPath(name: string): string {
-  return join(LOG_DIR, `${name}.pid`);
+// Link-local IPv6 addresses need a zone ID and are not reachable from other networks
+function isLanAddress(addr: NetworkInterfaceInfo): boolean {
+  return !addr.internal && !(addr.family === "IPv6" && addr.address.toLowerCase().startsWith("fe80:"));
 }
 
-export async function writePid(name: string, pid: number): Promise<void> {
-  await Bun.write(pidPath(name), String(pid));
+/** Non-internal IPv4 and IPv6 addresses of every interface. */
+export function getLocalIps(): string[] {
+  return Object.values(networkInterfaces())
+    .flatMap((addrs) => addrs ?? [])
+    .filter(isLanAddress)
+    .map((addr) => addr.address);
 }
 
-export async function readPid(name: string): Promise<number | null> {
-  const file = Bun.file(pidPath(name));
-  if (!(await file.exists())) return null;
-  const content = await file.text();
-  const pid = parseInt(content.trim(), 10);
-  return Number.isNaN(pid) ? null : pid;
+/** CIDRs of the interfaces getLocalIps() returns, e.g. "192.168.1.23/24". */
+export function getLocalSubnets(): string[] {
+  return Object.values(networkInterfaces())
+    .flatMap((addrs) => addrs ?? [])
+    .filter(isLanAddress)
+    .flatMap((addr) => (addr.cidr ? [addr.cidr] : []));
 }
 
-export async function removePid(name: string): Promise<void> {
-  try {
-    unlinkSync(pidPath(name));
-  } catch {
-    // ignore if file doesn't exist
-  }
+export function ensureCacheDir(): void {
+  mkdirSync(LOG_DIR, { recursive: true });
 }
 
 export function isProcessAlive(pid: number): boolean {
@@ -0,0 +1,125 @@
+import fitScript from "@xterm/addon-fit/lib/addon-fit.js" with { type: "text" };
+import xtermCss from "@xterm/xterm/css/xterm.css" with { type: "text" };
+import xtermScript from "@xterm/xterm/lib/xterm.js" with { type: "text" };
+
+// xterm.js is bundled and served with the page: a script from a CDN would run with full
+// access to the terminal, and the browser needs no internet access
+export const WEB_ASSETS: Record<string, { body: string; type: string }> = {
+  "/assets/xterm.js": { body: xtermScript, type: "text/javascript; charset=utf-8" },
+  "/assets/xterm.css": { body: xtermCss, type: "text/css; charset=utf-8" },
+  "/assets/addon-fit.js": { body: fitScript, type: "text/javascript; charset=utf-8" },
+};
+
+const CLIENT_SCRIPT = `
+const params = new URLSearchParams(location.search);
+const form = document.getElementById("login");
+const status = document.getElementById("status");
+const term = new Terminal({ cursorBlink: true, fontSize: 14, scrollback: 5000 });
+const fit = new FitAddon.FitAddon();
+term.loadAddon(fit);
+
+let ws = null;
+
+function send(message) {
+  if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+}
+
+function showTerminal() {
+  form.hidden = true;
+  document.getElementById("terminal").hidden = false;
+  term.open(document.getElementById("terminal"));
+  fit.fit();
+  term.focus();
+  send({ type: "resize", cols: term.cols, rows: term.rows });
+}
+
+function showPicker(sessions) {
+  const list = document.getElementById("sessions");
+  list.innerHTML = "";
+  for (const s of sessions) {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = s.name + " — " + s.cwd;
+    button.onclick = () => send({ type: "attach", session: s.name });
+    list.appendChild(button);
+  }
+  status.textContent = "Select a session";
+}
+
+function connect(password, code) {
+  const proto = location.protocol === "https:" ? "wss:" : "ws:";
+  ws = new WebSocket(proto + "//" + location.host + "/ws?session=" + encodeURIComponent(params.get("session") || ""));
+  ws.binaryType = "arraybuffer";
+  ws.onopen = () => send({ type: "auth", password, code });
+  ws.onmessage = (event) => {
+    if (typeof event.data !== "string") {
+      term.write(new Uint8Array(event.data));
+      return;
+    }
+    const message = JSON.parse(event.data);
+    if (message.type === "auth" && !message.ok) {
+      status.textContent = message.error;
+      if (message.totp) {
+        const code = document.getElementById("code");
+        code.hidden = false;
+        code.value = "";
+        code.focus();
+      }
+    } else if (message.type === "pick") {
+      showPicker(message.sessions);
+    } else if (message.type === "attached") {
+      showTerminal();
+      if (message.readOnly) term.options.disableStdin = true;
+    }
+  };
+  ws.onclose = () => {
+    status.textContent = "Disconnected.";
+    term.write("\\r\\n\\x1b[90m[disconnected]\\x1b[0m\\r\\n");
+  };
+}
+
+term.onData((data) => send({ type: "input", data }));
+term.onResize(({ cols, rows }) => send({ type: "resize", cols, rows }));
+window.addEventListener("resize", () => fit.fit());
+
+form.addEventListener("submit", (event) => {
+  event.preventDefault();
+  status.textContent = "Connecting...";
+  connect(document.getElementById("password").value, document.getElementById("code").value);
+});
+`;
+
+/** `password: false` hides the password field when the server does not ask for one. */
+export function renderWebPage(opts: { password: boolean }): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+<title>Superintent Remote</title>
+<link rel="stylesheet" href="/assets/xterm.css">
+<style>
+  html, body { margin: 0; height: 100%; background: #000; color: #ccc; font-family: system-ui, sans-serif; }
+  #login { display: flex; flex-direction: column; gap: 8px; max-width: 320px; margin: 20vh auto; padding: 0 16px; }
+  #login input, #login button { font-size: 16px; padding: 8px; }
+  #sessions { display: flex; flex-direction: column; gap: 8px; }
+  #terminal { height: 100%; }
+</style>
+</head>
+<body>
+<form id="login">
+  <strong>Superintent Remote</strong>
+  <input id="password" type="password" placeholder="Password" autocomplete="current-password" autofocus${opts.password ? "" : " hidden"}>
+  <input id="code" type="text" placeholder="Verification code" inputmode="numeric" autocomplete="one-time-code" hidden>
+  <button type="submit">Connect</button>
+  <div id="sessions"></div>
+  <span id="status"></span>
+</form>
+<div id="terminal" hidden></div>
+<script src="/assets/xterm.js"></script>
+<script src="/assets/addon-fit.js"></script>
+<script>${CLIENT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,182 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createServer } from "node:net";
+import type { Listener } from "./bind-addresses.ts";
+import { createAcl } from "./network-acl.ts";
+import { generateTotpSecret } from "./totp.ts";
+import { createWebServer, originRefusal, parseMessage } from "./web-server.ts";
+
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const probe = createServer();
+    probe.listen(0, "127.0.0.1", () => {
+      const address = probe.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+let listener: Listener;
+let port = 0;
+
+beforeAll(async () => {
+  port = await freePort();
+  listener = createWebServer({
+    port,
+    noAuth: true,
+    password: null,
+    viewerPassword: null,
+    totpSecret: null,
+    identify: false,
+    tailnetAllow: [],
+    macros: [],
+    acl: createAcl([], []),
+    maxConnections: 1,
+    idleTimeoutMs: 300,
+  })("127.0.0.1");
+});
+
+afterAll(() => listener.close());
+
+function connect(origin: string): WebSocket {
+  // Bun takes headers here; the DOM typing of the constructor does not know the option
+  const options: Bun.WebSocketOptions = { headers: { Origin: origin } };
+  return new WebSocket(`ws://127.0.0.1:${port}/ws`, options as string[]);
+}
+
+function open(origin: string): Promise<{ opened: boolean; code: number; reason: string }> {
+  return new Promise((resolve) => {
+    const ws = connect(origin);
+    let opened = false;
+    ws.onopen = () => {
+      opened = true;
+    };
+    ws.onclose = (event) => resolve({ opened, code: event.code, reason: event.reason });
+  });
+}
+
+describe("originRefusal", () => {
+  test("accepts the page's own origin", () => {
+    expect(originRefusal(new Headers({ host: "100.64.0.1:2223", origin: "http://100.64.0.1:2223" }))).toBeNull();
+    expect(originRefusal(new Headers({ host: "[fd7a::1]:2223", origin: "http://[FD7A::1]:2223" }))).toBeNull();
+  });
+
+  test("refuses other sites and a missing origin", () => {
+    expect(originRefusal(new Headers({ host: "100.64.0.1:2223", origin: "https://evil.example" }))).toBe(
+      "origin https://evil.example",
+    );
+    expect(originRefusal(new Headers({ host: "100.64.0.1:2223", origin: "http://100.64.0.1:8080" }))).toBe(
+      "origin http://100.64.0.1:8080",
+    );
+    expect(originRefusal(new Headers({ host: "100.64.0.1:2223" }))).toBe("no origin");
+    expect(originRefusal(new Headers({ host: "100.64.0.1:2223", origin: "null" }))).toBe("origin null");
+  });
+});
+
+describe("parseMessage", () => {
+  test("accepts well-formed messages", () => {
+    expect(parseMessage('{"type":"auth","password":"pw","code":"123456"}')).toEqual({
+      type: "auth",
+      password: "pw",
+      code: "123456",
+    });
+    expect(parseMessage('{"type":"resize","cols":80,"rows":24}')).toEqual({ type: "resize", cols: 80, rows: 24 });
+  });
+
+  test("drops frames that are not objects with a string type", () => {
+    for (const frame of ["null", "[]", '"auth"', "42", '{"kind":"auth"}', '{"type":1}', "{not json"]) {
+      expect(parseMessage(frame)).toBeNull();
+    }
+  });
+
+  test("drops frames with non-string credentials, input or session names", () => {
+    for (const frame of [
+      '{"type":"auth","password":1}',
+      '{"type":"auth","password":"pw","code":123456}',
+      '{"type":"input","data":{"length":1}}',
+      '{"type":"attach","session":null}',
+    ]) {
+      expect(parseMessage(frame)).toBeNull();
+    }
+  });
+});
+
+describe("createWebServer", () => {
+  test("serves xterm.js itself instead of loading it from a CDN", async () => {
+    const page = await (await fetch(`http://127.0.0.1:${port}/`)).text();
+    expect(page).not.toContain("https://");
+    expect(page).toContain('<script src="/assets/xterm.js">');
+    const script = await fetch(`http://127.0.0.1:${port}/assets/xterm.js`);
+    expect(script.headers.get("content-type")).toStartWith("text/javascript");
+    expect(await script.text()).toContain("Terminal");
+  });
+
+  test("refuses WebSocket upgrades from another origin or without one", async () => {
+    const foreign = await fetch(`http://127.0.0.1:${port}/ws`, { headers: { Origin: "https://evil.example" } });
+    expect(foreign.status).toBe(403);
+    const missing = await fetch(`http://127.0.0.1:${port}/ws`);
+    expect(missing.status).toBe(403);
+    expect((await open("https://evil.example")).opened).toBe(false);
+  });
+
+  test("closes a connection that stays idle", async () => {
+    expect(await open(`http://127.0.0.1:${port}`)).toEqual({ opened: true, code: 1000, reason: "Idle timeout" });
+  });
+
+  test("refuses connections over the cap", async () => {
+    const first = connect(`http://127.0.0.1:${port}`);
+    await new Promise((resolve) => {
+      first.onopen = resolve;
+    });
+    const over = await fetch(`http://127.0.0.1:${port}/ws`, { headers: { Origin: `http://127.0.0.1:${port}` } });
+    expect(over.status).toBe(503);
+    first.close();
+  });
+});
+
+describe("malformed frames", () => {
+  let authPort = 0;
+  let authListener: Listener;
+
+  beforeAll(async () => {
+    authPort = await freePort();
+    authListener = createWebServer({
+      port: authPort,
+      noAuth: false,
+      password: "correct horse",
+      viewerPassword: null,
+      totpSecret: generateTotpSecret(),
+      identify: false,
+      tailnetAllow: [],
+      macros: [],
+      acl: createAcl([], []),
+    })("127.0.0.1");
+  });
+
+  afterAll(() => authListener.close());
+
+  test("do not bring the server down before login", async () => {
+    const options: Bun.WebSocketOptions = { headers: { Origin: `http://127.0.0.1:${authPort}` } };
+    const ws = new WebSocket(`ws://127.0.0.1:${authPort}/ws`, options as string[]);
+    const replies: unknown[] = [];
+    ws.onmessage = (event) => replies.push(JSON.parse(String(event.data)));
+    await new Promise((resolve) => {
+      ws.onopen = resolve;
+    });
+    for (const frame of [
+      "null",
+      "[]",
+      '{"type":"auth","password":1}',
+      '{"type":"auth","password":"correct horse","code":123456}',
+      '{"type":"auth","password":"correct horse","code":{"replace":1}}',
+    ]) {
+      ws.send(frame);
+    }
+    ws.send(JSON.stringify({ type: "auth", password: "correct horse" }));
+    await Bun.sleep(200);
+    expect(replies).toEqual([{ type: "auth", ok: false, totp: true, error: "Enter the verification code." }]);
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+    expect((await fetch(`http://127.0.0.1:${authPort}/`)).status).toBe(200);
+    ws.close();
+  });
+});
@@ -0,0 +1,378 @@
+import { randomBytes } from "node:crypto";
+import type { Server, ServerWebSocket } from "bun";
+import { audit } from "./audit.ts";
+import { clearAuthFailures, isLockedOut, passwordMatches, recordAuthFailure } from "./auth.ts";
+import type { Listener } from "./bind-addresses.ts";
+import { answerLocal, createEscapeState, type EscapeState, type Macro, processInput } from "./input-escapes.ts";
+import { aclRefusal, type NetworkAcl } from "./network-acl.ts";
+import { DEFAULT_IDLE_TIMEOUT_MS, DEFAULT_MAX_CONNECTIONS } from "./ssh-server.ts";
+import { formatIdentity, matchTailnetRule, type TailnetIdentity, whois } from "./tailnet-identity.ts";
+import {
+  addClient,
+  getSession,
+  listSessions,
+  removeClient,
+  resizeClient,
+  type TerminalClient,
+  type TerminalSession,
+  writeToTerminal,
+} from "./terminal.ts";
+import { verifyTotp } from "./totp.ts";
+import { log } from "./utils.ts";
+import { renderWebPage, WEB_ASSETS } from "./web-page.ts";
+
+interface WebServerOptions {
+  port: number;
+  noAuth: boolean;
+  password: string | null; // null = password auth disabled
+  viewerPassword: string | null; // null = no viewer credential
+  totpSecret: string | null; // null = no second factor
+  identify: boolean; // look up each peer with `tailscale whois` and log who it is
+  tailnetAllow: string[]; // non-empty = authenticate by tailnet identity instead of a password
+  macros: Macro[]; // `~<key>` input shortcuts
+  acl: NetworkAcl;
+  maxConnections?: number; // counted separately from SSH connections
+  idleTimeoutMs?: number;
+}
+
+interface WebClientData {
+  conn: string; // connection ID in the audit log
+  openedAt: number;
+  userAgent: string | null;
+  bytesIn: number;
+  bytesOut: number;
+  ip: string;
+  identity: Promise<TailnetIdentity | null>;
+  sessionName: string;
+  authed: boolean;
+  authenticating: boolean; // an identity lookup is in flight
+  authMethod: string; // as logged in auth.accept, shown by `who`
+  readOnly: boolean;
+  escapes: EscapeState;
+  session: TerminalSession | null;
+  client: TerminalClient | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Browser → server control messages (server → browser output is sent as binary frames)
+type WebMessage =
+  | { type: "auth"; password?: string; code?: string }
+  | { type: "attach"; session: string }
+  | { type: "input"; data: string }
+  | { type: "resize"; cols: number; rows: number };
+
+// Fields passed on to auth and the terminal as strings; a frame with any other type there is dropped
+const STRING_FIELDS = ["password", "code", "data", "session"];
+
+/** Parses a control frame from the page; null when it is not JSON or not shaped like a message. */
+export function parseMessage(text: string): WebMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof message !== "object" || message === null) return null;
+  const fields = message as Record<string, unknown>;
+  if (typeof fields.type !== "string") return null;
+  if (STRING_FIELDS.some((field) => field in fields && typeof fields[field] !== "string")) return null;
+  return message as WebMessage;
+}
+
+/**
+ * Why a WebSocket upgrade is refused for coming from another site, or null. Browsers let
+ * any page open a WebSocket to any address, so the page's own origin must match the host
+ * it was served from; clients that send no Origin are refused too.
+ */
+export function originRefusal(headers: Headers): string | null {
+  const origin = headers.get("origin");
+  if (!origin) return "no origin";
+  let host: string;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    return `origin ${origin}`;
+  }
+  return host.toLowerCase() === headers.get("host")?.toLowerCase() ? null : `origin ${origin}`;
+}
+
+function send(ws: ServerWebSocket<WebClientData>, message: Record<string, unknown>): void {
+  ws.send(JSON.stringify(message));
+}
+
+async function attach(ws: ServerWebSocket<WebClientData>, session: TerminalSession): Promise<void> {
+  const tailnetId = await ws.data.identity;
+  if (ws.readyState !== WebSocket.OPEN || ws.data.session) return;
+  const termClient: TerminalClient = {
+    write(data: Buffer | Uint8Array | string) {
+      if (ws.readyState === WebSocket.OPEN) {
+        const frame = typeof data === "string" ? Buffer.from(data) : data;
+        ws.data.bytesOut += frame.length;
+        ws.send(frame);
+      }
+    },
+    close() {
+      ws.close(1000, "Disconnected by the host");
+    },
+  };
+  ws.data.session = session;
+  ws.data.client = termClient;
+  const { conn, ip, readOnly } = ws.data;
+  audit({ type: "session.attach", conn, transport: "web", ip, session: session.name, readOnly });
+  send(ws, { type: "attached", session: session.name, readOnly: ws.data.readOnly });
+  addClient(session, termClient, {
+    readOnly: ws.data.readOnly,
+    presence: {
+      conn,
+      transport: "web",
+      ip,
+      identity: tailnetId ? formatIdentity(tailnetId) : null,
+      auth: ws.data.authMethod,
+      software: ws.data.userAgent,
+      connectedAt: ws.data.openedAt,
+    },
+  });
+}
+
+async function authenticate(
+  ws: ServerWebSocket<WebClientData>,
+  opts: WebServerOptions,
+  password: string,
+  code: string,
+): Promise<boolean> {
+  const { conn, ip } = ws.data;
+  const authEvent = { conn, transport: "web", ip, user: null } as const;
+  if (opts.noAuth) {
+    audit({ type: "auth.accept", ...authEvent, method: "none", readOnly: false, key: null });
+    return true;
+  }
+
+  if (isLockedOut(ip)) {
+    audit({ type: "auth.locked", ...authEvent });
+    send(ws, { type: "auth", ok: false, error: "Too many failed attempts. Try again later." });
+    return false;
+  }
+
+  let method: string;
+  if (opts.tailnetAllow.length > 0) {
+    // Vouches for the browser, not the page in it — originRefusal keeps other sites out
+    const identity = await ws.data.identity;
+    if (!identity || !matchTailnetRule(identity, opts.tailnetAllow)) {
+      audit({ type: "auth.fail", ...authEvent, method: "tailscale", lockoutMs: null, global: false });
+      send(ws, { type: "auth", ok: false, error: "This device is not allowed to connect." });
+      return false;
+    }
+    method = "tailscale";
+  } else if (passwordMatches(password, opts.password)) {
+    method = "password";
+  } else if (passwordMatches(password, opts.viewerPassword)) {
+    ws.data.readOnly = true;
+    ws.data.authMethod = "password";
+    clearAuthFailures(ip);
+    audit({ type: "auth.accept", ...authEvent, method: "password", readOnly: true, key: null });
+    return true;
+  } else {
+    audit({ type: "auth.fail", ...authEvent, method: "password", ...recordAuthFailure(ip) });
+    send(ws, { type: "auth", ok: false, error: "Wrong password." });
+    return false;
+  }
+
+  if (!opts.totpSecret) {
+    clearAuthFailures(ip);
+    ws.data.authMethod = method;
+    audit({ type: "auth.accept", ...authEvent, method, readOnly: false, key: null });
+    return true;
+  }
+  // Full access needs a verification code too — ask the page for one before counting failures
+  if (!code) {
+    send(ws, { type: "auth", ok: false, totp: true, error: "Enter the verification code." });
+    return false;
+  }
+  if (verifyTotp(opts.totpSecret, code)) {
+    clearAuthFailures(ip);
+    ws.data.authMethod = `${method}+totp`;
+    audit({ type: "auth.accept", ...authEvent, method: `${method}+totp`, readOnly: false, key: null });
+    return true;
+  }
+  audit({ type: "auth.fail", ...authEvent, method: "totp", ...recordAuthFailure(ip) });
+  send(ws, { type: "auth", ok: false, totp: true, error: "Wrong verification code." });
+  return false;
+}
+
+function onAuthenticated(ws: ServerWebSocket<WebClientData>): void {
+  ws.data.authed = true;
+  send(ws, { type: "auth", ok: true });
+
+  // Same routing as SSH: named session, the only session, or let the page pick
+  const sessions = listSessions();
+  const target = getSession(ws.data.sessionName) ?? (sessions.length === 1 ? sessions[0] : null);
+  if (target) {
+    void attach(ws, target);
+  } else {
+    send(ws, { type: "pick", sessions: sessions.map((s) => ({ name: s.name, cwd: s.cwd })) });
+  }
+}
+
+function handleMessage(ws: ServerWebSocket<WebClientData>, opts: WebServerOptions, message: WebMessage): void {
+  if (!ws.data.authed) {
+    if (message.type !== "auth" || ws.data.authenticating) return;
+    ws.data.authenticating = true;
+    void authenticate(ws, opts, message.password ?? "", message.code ?? "")
+      .then((ok) => {
+        ws.data.authenticating = false;
+        if (ok && ws.readyState === WebSocket.OPEN) onAuthenticated(ws);
+      })
+      .catch((err) => {
+        log(`Web authentication failed: ${ws.data.ip} (${err instanceof Error ? err.message : err})`);
+        ws.close(1011, "Authentication failed");
+      });
+    return;
+  }
+
+  switch (message.type) {
+    case "attach": {
+      const target = getSession(message.session);
+      if (!ws.data.session && target) void attach(ws, target);
+      break;
+    }
+    case "input": {
+      const { session, client } = ws.data;
+      if (!session || !client || typeof message.data !== "string") break;
+      const { input, local } = processInput(ws.data.escapes, message.data, opts.macros);
+      for (const command of local) {
+        const reply = answerLocal(command, session, client, opts.macros);
+        if (reply) client.write(reply);
+      }
+      if (input && !ws.data.readOnly) writeToTerminal(session, input, client);
+      break;
+    }
+    case "resize":
+      if (ws.data.session && ws.data.client && Number.isFinite(message.cols) && Number.isFinite(message.rows)) {
+        resizeClient(ws.data.session, ws.data.client, message.cols, message.rows);
+      }
+      break;
+  }
+}
+
+/**
+ * Returns a function that serves the browser terminal on one more address. Every address
+ * shares the page and the connection count; binding failures throw.
+ */
+export function createWebServer(opts: WebServerOptions): (host: string) => Listener {
+  const page = renderWebPage({ password: !opts.noAuth && opts.tailnetAllow.length === 0 });
+  const maxConnections = opts.maxConnections ?? DEFAULT_MAX_CONNECTIONS;
+  const idleTimeoutMs = opts.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  let activeConnections = 0;
+
+  // Idle timeout — reset on every message from the page
+  function resetIdleTimer(ws: ServerWebSocket<WebClientData>) {
+    if (ws.data.idleTimer) clearTimeout(ws.data.idleTimer);
+    ws.data.idleTimer = setTimeout(() => {
+      audit({ type: "connection.idle", conn: ws.data.conn, ip: ws.data.ip, timeoutMs: idleTimeoutMs });
+      ws.close(1000, "Idle timeout");
+    }, idleTimeoutMs);
+  }
+
+  return (host) => {
+    const server: Server<WebClientData> = Bun.serve<WebClientData>({
+      port: opts.port,
+      hostname: host,
+      fetch(req, server) {
+        const url = new URL(req.url);
+        const ip = server.requestIP(req)?.address ?? "unknown";
+        const refusal = aclRefusal(opts.acl, ip);
+        if (refusal) {
+          audit({ type: "connection.reject", transport: "web", ip, reason: refusal });
+          return new Response("Forbidden", { status: 403 });
+        }
+        if (url.pathname === "/ws") {
+          // Another site open in the host's browser must not reach the terminal
+          const originRefused = originRefusal(req.headers);
+          if (originRefused) {
+            audit({ type: "connection.reject", transport: "web", ip, reason: originRefused });
+            return new Response("Forbidden", { status: 403 });
+          }
+          if (activeConnections >= maxConnections) {
+            audit({ type: "connection.reject", transport: "web", ip, reason: `limit ${maxConnections}` });
+            return new Response("Too many connections", { status: 503 });
+          }
+          const upgraded = server.upgrade(req, {
+            data: {
+              conn: randomBytes(4).toString("hex"),
+              openedAt: Date.now(),
+              userAgent: req.headers.get("user-agent"),
+              bytesIn: 0,
+              bytesOut: 0,
+              ip,
+              identity: opts.identify ? whois(ip) : Promise.resolve(null),
+              sessionName: url.searchParams.get("session") ?? "",
+              authed: false,
+              authenticating: false,
+              authMethod: "none",
+              readOnly: false,
+              escapes: createEscapeState(),
+              session: null,
+              client: null,
+              idleTimer: null,
+            },
+          });
+          return upgraded ? undefined : new Response("WebSocket upgrade failed", { status: 400 });
+        }
+        if (url.pathname === "/") {
+          return new Response(page, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+        }
+        const asset = WEB_ASSETS[url.pathname];
+        if (asset) {
+          return new Response(asset.body, { headers: { "Content-Type": asset.type } });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+      websocket: {
+        open(ws) {
+          activeConnections++;
+          const { conn, ip, userAgent } = ws.data;
+          audit({ type: "connection.open", conn, transport: "web", ip, client: userAgent, active: activeConnections });
+          resetIdleTimer(ws);
+          if (opts.identify) {
+            void ws.data.identity.then((id) =>
+              audit({
+                type: "connection.identity",
+                conn,
+                transport: "web",
+                ip,
+                user: id?.user ?? null,
+                node: id?.node ?? null,
+                tags: id?.tags ?? [],
+              }),
+            );
+          }
+        },
+        message(ws, raw) {
+          ws.data.bytesIn += raw.length;
+          resetIdleTimer(ws);
+          const message = parseMessage(typeof raw === "string" ? raw : raw.toString());
+          if (message) handleMessage(ws, opts, message);
+        },
+        close(ws) {
+          if (ws.data.idleTimer) clearTimeout(ws.data.idleTimer);
+          if (ws.data.session && ws.data.client) {
+            removeClient(ws.data.session, ws.data.client);
+          }
+          activeConnections--;
+          const { conn, ip, openedAt, bytesIn, bytesOut } = ws.data;
+          audit({
+            type: "connection.close",
+            conn,
+            transport: "web",
+            ip,
+            durationMs: Date.now() - openedAt,
+            bytesIn,
+            bytesOut,
+            active: activeConnections,
+          });
+        },
+      },
+    });
+    return { address: host, close: (onClosed) => void server.stop(false).then(() => onClosed?.()) };
+  };
+}